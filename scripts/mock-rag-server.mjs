@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the RAG WebSocket server, for working on the UI without the
+ * remote endpoint. It speaks the same protocol as src/lib/rag-protocol.ts:
+ * `process_questions` → `progress`* / `answer_delta`* / `answer` per question → `summary`, each
+ * echoing the request's `session_id`, plus `ping`, `cancel`, `list_models`,
+ * `follow_up`, `regenerate` and `summarize`.
+ *
+ * The same path also accepts the HTTP streaming transport: each message is POSTed
+ * as JSON and the reply frames come back as Server-Sent Events.
+ *
+ *   npm run mock:rag -- --delay 300-1200 --out-of-order --drop-after 2
+ *
+ * Every flag can also be set as an environment variable, e.g. MOCK_RAG_DELAY=300-1200.
+ * Run with --help for the full list.
+ */
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import { WebSocketServer } from "ws";
+
+const OPTIONS = {
+  port: { type: "string", default: "8787", description: "Port to listen on." },
+  delay: { type: "string", default: "400-1500", description: "Delay before each answer in ms, fixed or min-max." },
+  "out-of-order": { type: "boolean", default: false, description: "Answer in random order with sent_in_order: false." },
+  stream: { type: "boolean", default: false, description: "Stream answer_delta frames before each answer." },
+  "no-progress": { type: "boolean", default: false, description: "Skip the progress frames (retrieving, reranking, generating) before each answer." },
+  "error-rate": { type: "string", default: "0", description: "Chance (0–1) per answer of closing with 1011." },
+  "malformed-rate": { type: "string", default: "0", description: "Chance (0–1) per answer of sending an invalid frame first." },
+  "drop-after": { type: "string", default: "", description: "Drop the connection without a close frame after N answers (first attempt only)." },
+  models: { type: "string", default: "mock-fast,mock-thorough", description: "Comma-separated models for list_models." },
+  "no-models": { type: "boolean", default: false, description: "Ignore list_models, so the UI falls back to its configured list." },
+  "auth-token": { type: "string", default: "", description: "Require this token in the first `auth` frame (or Authorization header)." },
+  "no-websocket": { type: "boolean", default: false, description: "Refuse WebSocket upgrades, as a blocking proxy would (HTTP streaming only)." },
+  help: { type: "boolean", default: false, description: "Show this help." },
+};
+
+const envName = (flag) => `MOCK_RAG_${flag.replace(/-/g, "_").toUpperCase()}`;
+
+const { values: args } = parseArgs({
+  options: Object.fromEntries(
+    Object.entries(OPTIONS).map(([flag, { type, default: fallback }]) => {
+      const env = process.env[envName(flag)];
+      const value = env === undefined ? fallback : type === "boolean" ? env === "1" || env === "true" : env;
+      return [flag, { type, default: value }];
+    }),
+  ),
+});
+
+if (args.help) {
+  console.log("Usage: node scripts/mock-rag-server.mjs [options]\n");
+  for (const [flag, { type, description }] of Object.entries(OPTIONS)) {
+    console.log(`  --${flag}${type === "string" ? " <value>" : ""}`.padEnd(28), description, `(${envName(flag)})`);
+  }
+  process.exit(0);
+}
+
+const [minDelay, maxDelay = minDelay] = args.delay.split("-").map(Number);
+const config = {
+  port: Number(args.port),
+  minDelay,
+  maxDelay,
+  outOfOrder: args["out-of-order"],
+  stream: args.stream,
+  progress: !args["no-progress"],
+  errorRate: Number(args["error-rate"]),
+  malformedRate: Number(args["malformed-rate"]),
+  dropAfter: args["drop-after"] === "" ? null : Number(args["drop-after"]),
+  models: args["no-models"] ? null : args.models.split(",").map((m) => m.trim()).filter(Boolean),
+  websocket: !args["no-websocket"],
+  authToken: args["auth-token"] || null,
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const randomDelay = () => config.minDelay + Math.random() * (config.maxDelay - config.minDelay);
+const now = () => new Date().toISOString();
+
+const SOURCES = [
+  {
+    pattern: /lease|lessee|right-of-use|ifrs 16/i,
+    source: { standard: "IFRS 16", paragraph: "22", excerpt: "At the commencement date, a lessee shall recognise a right-of-use asset and a lease liability.", score: 0.91 },
+  },
+  {
+    pattern: /revenue|customer|performance obligation|ifrs 15/i,
+    source: { standard: "IFRS 15", paragraph: "31", excerpt: "An entity shall recognise revenue when (or as) the entity satisfies a performance obligation.", score: 0.88 },
+  },
+  {
+    pattern: /impair|recoverable|cash-generating|ias 36/i,
+    source: { standard: "IAS 36", paragraph: "59", excerpt: "If the recoverable amount of an asset is less than its carrying amount, the carrying amount shall be reduced to its recoverable amount.", score: 0.86 },
+  },
+];
+
+const sourcesFor = (text) => {
+  const matched = SOURCES.filter(({ pattern }) => pattern.test(text)).map(({ source }) => source);
+  return matched.length > 0 ? matched : [{ standard: "IAS 8", paragraph: "10", excerpt: "In the absence of an IFRS that specifically applies, management shall use its judgement.", score: 0.5 }];
+};
+
+const answerText = (question, background, attachments = [], model = "mock") =>
+  [
+    `**Mock answer** (${model}) to: _${question}_`,
+    "",
+    `Based on the ${background.length}-character background${attachments.length ? ` and ${attachments.map((a) => a.name).join(", ")}` : ""}:`,
+    "",
+    "1. Identify the applicable standard and scope.",
+    "2. Apply the recognition and measurement requirements.",
+    "3. Consider the disclosure requirements.",
+    "",
+    "| Step | Consideration |",
+    "| --- | --- |",
+    "| Recognition | When control transfers or the obligation arises |",
+    "| Measurement | Initial and subsequent measurement |",
+  ].join("\n");
+
+const send = (socket, frame) => {
+  if (socket.readyState === socket.OPEN) socket.send(typeof frame === "string" ? frame : JSON.stringify(frame));
+};
+
+let connectionCount = 0;
+
+/** Stages reported before each answer, with their share of the answer delay. */
+const PROGRESS_STAGES = [
+  ["retrieving", 0.3],
+  ["reranking", 0.2],
+  ["generating", 0.5],
+];
+
+const handleProcessQuestions = async (socket, state, payload) => {
+  const positions = payload.questions.map((_, i) => i + 1);
+  if (config.outOfOrder) positions.sort(() => Math.random() - 0.5);
+  const inOrder = !config.outOfOrder;
+  const isResume = Boolean(payload.resume);
+  const answered = [];
+
+  for (const number of positions) {
+    const delay = randomDelay();
+    if (config.progress) {
+      for (const [stage, share] of PROGRESS_STAGES) {
+        if (state.closed || state.cancelledAll || state.cancelled.has(number)) break;
+        send(socket, { type: "progress", session_id: payload.session_id, question_number: number, stage });
+        await sleep(delay * share);
+      }
+    } else {
+      await sleep(delay);
+    }
+    if (state.closed || state.cancelledAll) return;
+    if (state.cancelled.has(number)) continue;
+
+    if (Math.random() < config.malformedRate) {
+      console.log(`[mock #${state.id}] sending malformed frame`);
+      send(socket, "{ this is not json");
+    }
+    if (Math.random() < config.errorRate) {
+      console.log(`[mock #${state.id}] simulating server error`);
+      socket.close(1011, "Mock server error");
+      return;
+    }
+
+    const question = payload.questions[number - 1];
+    const answer = answerText(question, payload.background, payload.attachments, payload.model);
+    if (config.stream) {
+      for (const delta of answer.match(/[\s\S]{1,24}/g) ?? []) {
+        await sleep(40);
+        if (state.closed || state.cancelled.has(number)) break;
+        send(socket, { type: "answer_delta", session_id: payload.session_id, question_number: number, delta });
+      }
+      if (state.cancelled.has(number)) continue;
+    }
+    send(socket, {
+      type: "answer",
+      session_id: payload.session_id,
+      question_number: number,
+      question,
+      answer,
+      timestamp: now(),
+      sent_in_order: inOrder,
+      model: payload.model,
+      sources: sourcesFor(`${payload.background} ${question}`),
+    });
+    answered.push(number);
+    console.log(`[mock #${state.id}] answered ${number}/${payload.questions.length}`);
+
+    if (!isResume && config.dropAfter !== null && answered.length >= config.dropAfter && answered.length < positions.length) {
+      console.log(`[mock #${state.id}] dropping connection after ${answered.length} answers`);
+      socket.terminate();
+      return;
+    }
+  }
+
+  await sleep(randomDelay());
+  if (state.closed || state.cancelledAll) return;
+  const total = (payload.resume?.answered.length ?? 0) + answered.length;
+  send(socket, {
+    type: "summary",
+    session_id: payload.session_id,
+    summary: `**Mock summary** of ${total} answered question${total === 1 ? "" : "s"}. Replace with the real server for meaningful advice.`,
+    timestamp: now(),
+    sent_in_order: inOrder,
+  });
+};
+
+const handleMessage = async (socket, state, message) => {
+  switch (message.type) {
+    case "process_questions":
+      return handleProcessQuestions(socket, state, message);
+    case "cancel":
+      if (message.question_number === undefined) state.cancelledAll = true;
+      else state.cancelled.add(message.question_number);
+      return;
+    case "ping":
+      return send(socket, { type: "pong", session_id: message.session_id, timestamp: now() });
+    case "list_models":
+      if (config.models) send(socket, { type: "models", models: config.models });
+      return;
+    case "follow_up":
+      await sleep(randomDelay());
+      return send(socket, {
+        type: "follow_up_answer",
+        follow_up_id: message.follow_up_id,
+        parent_question_number: message.parent_question_number,
+        question: message.question,
+        answer: answerText(message.question, message.background, [], message.model),
+        timestamp: now(),
+        model: message.model,
+        sources: sourcesFor(message.question),
+      });
+    case "regenerate":
+      await sleep(randomDelay());
+      return send(socket, {
+        type: "answer",
+        question_number: message.question_number,
+        question: message.question,
+        answer: `${answerText(message.question, message.background, [], message.model)}\n\n_Regenerated at ${now()}._`,
+        timestamp: now(),
+        model: message.model,
+        sources: sourcesFor(message.question),
+      });
+    case "summarize":
+      await sleep(randomDelay());
+      return send(socket, {
+        type: "summary",
+        summary: `**Mock summary** of ${message.answers.length} answers (refreshed).`,
+        timestamp: now(),
+      });
+    default:
+      console.warn(`[mock #${state.id}] ignoring unknown message type`, message.type);
+  }
+};
+
+const STREAM_ID_HEADER = "x-rag-stream-id";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `Content-Type, Authorization, ${STREAM_ID_HEADER}`,
+  "Access-Control-Expose-Headers": STREAM_ID_HEADER,
+};
+
+/** Running HTTP streams by id, so a later `cancel` POST reaches the right session. */
+const httpStreams = new Map();
+
+/** Looks enough like a `ws` socket for the handlers above, writing frames as SSE events. */
+const sseSocket = (response) => {
+  const socket = {
+    OPEN: 1,
+    readyState: 1,
+    send: (data) => response.write(`data: ${data}\n\n`),
+    close: () => {
+      socket.readyState = 3;
+      response.end();
+    },
+    terminate: () => {
+      socket.readyState = 3;
+      response.destroy();
+    },
+  };
+  return socket;
+};
+
+const readBody = async (request) => {
+  let body = "";
+  for await (const chunk of request) body += chunk;
+  return body;
+};
+
+const authError = (reason) => ({ type: "auth_error", code: "invalid", reason });
+
+const handleHttp = async (request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  if (request.method !== "POST") {
+    response.writeHead(405, CORS_HEADERS).end();
+    return;
+  }
+
+  if (config.authToken && request.headers.authorization !== `Bearer ${config.authToken}`) {
+    console.warn("[mock] rejecting http request without a valid token");
+    response.writeHead(401, CORS_HEADERS).end();
+    return;
+  }
+
+  let message;
+  try {
+    message = JSON.parse(await readBody(request));
+  } catch {
+    response.writeHead(400, CORS_HEADERS).end("Invalid JSON");
+    return;
+  }
+
+  const existing = httpStreams.get(request.headers[STREAM_ID_HEADER]);
+  if (existing) {
+    console.log(`[mock #${existing.id}] <- ${message.type} (http)`);
+    response.writeHead(200, { ...CORS_HEADERS, "Content-Type": "text/event-stream" });
+    await handleMessage(sseSocket(response), existing, message);
+    response.end();
+    return;
+  }
+
+  const streamId = randomUUID();
+  const state = { id: ++connectionCount, closed: false, cancelledAll: false, cancelled: new Set() };
+  httpStreams.set(streamId, state);
+  console.log(`[mock #${state.id}] http stream ${request.url} <- ${message.type}`);
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    [STREAM_ID_HEADER]: streamId,
+  });
+  response.on("close", () => {
+    state.closed = true;
+    httpStreams.delete(streamId);
+    console.log(`[mock #${state.id}] http stream closed`);
+  });
+  const socket = sseSocket(response);
+  await handleMessage(socket, state, message);
+  if (socket.readyState === socket.OPEN) response.end();
+};
+
+const server = createServer((request, response) => {
+  handleHttp(request, response).catch((err) => {
+    console.error("[mock] http", err);
+    if (!response.headersSent) response.writeHead(500, CORS_HEADERS);
+    response.end();
+  });
+});
+
+if (config.websocket) {
+  const wss = new WebSocketServer({ server });
+
+  wss.on("connection", (socket, request) => {
+    const state = { id: ++connectionCount, closed: false, cancelledAll: false, cancelled: new Set() };
+    let authenticated = !config.authToken;
+    console.log(`[mock #${state.id}] connected ${request.url}`);
+
+    socket.on("message", (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        console.warn(`[mock #${state.id}] received invalid JSON`);
+        return;
+      }
+      console.log(`[mock #${state.id}] <- ${message.type}`);
+      if (message.type === "auth") {
+        authenticated = message.token === config.authToken;
+        if (!authenticated) {
+          send(socket, authError("Unknown token"));
+          socket.close(1008, "Authentication failed");
+        }
+        return;
+      }
+      if (!authenticated) {
+        send(socket, authError("Send an auth frame first"));
+        socket.close(1008, "Authentication required");
+        return;
+      }
+      handleMessage(socket, state, message).catch((err) => console.error(`[mock #${state.id}]`, err));
+    });
+    socket.on("close", (code) => {
+      state.closed = true;
+      console.log(`[mock #${state.id}] closed (${code})`);
+    });
+  });
+} else {
+  server.on("upgrade", (_request, socket) => {
+    socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+  });
+}
+
+server.listen(config.port, () => {
+  console.log(`Mock RAG server listening on ws://localhost:${config.port}/ws/rag/ and http://localhost:${config.port}/ws/rag/`);
+  console.log("Settings:", JSON.stringify(config));
+});
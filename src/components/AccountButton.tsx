@@ -0,0 +1,24 @@
+import React from "react";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { signOut } from "@/lib/auth";
+
+/** Who is signed in and a sign-out button; renders nothing when sign-in is disabled. */
+const AccountButton: React.FC = () => {
+  const { credentials, required } = useAuth();
+  if (!required || !credentials) return null;
+
+  const label = credentials.subject ?? (credentials.method === "api_key" ? "API key" : "Signed in");
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="hidden text-muted-foreground sm:inline">{label}</span>
+      <Button variant="ghost" size="sm" onClick={signOut}>
+        <LogOut className="mr-1" /> Sign out
+      </Button>
+    </div>
+  );
+};
+
+export default AccountButton;
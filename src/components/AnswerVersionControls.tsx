@@ -0,0 +1,81 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Check, ChevronLeft, ChevronRight, Loader2, RefreshCw } from "lucide-react";
+
+interface AnswerVersionControlsProps {
+  questionNumber: number;
+  count: number;
+  /** Zero-based index of the version on screen. */
+  viewing: number;
+  /** Zero-based index of the version kept in the session. */
+  kept: number;
+  regenerating: boolean;
+  disabled?: boolean;
+  onView: (index: number) => void;
+  onKeep: (index: number) => void;
+  onRegenerate: () => void;
+}
+
+/** Regenerate button plus 1/3-style navigation between answer versions, with "keep" for the one on screen. */
+const AnswerVersionControls: React.FC<AnswerVersionControlsProps> = ({
+  questionNumber,
+  count,
+  viewing,
+  kept,
+  regenerating,
+  disabled,
+  onView,
+  onKeep,
+  onRegenerate,
+}) => (
+  <div className="flex items-center gap-1">
+    {count > 1 && (
+      <>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          aria-label="Previous version"
+          disabled={viewing === 0}
+          onClick={() => onView(viewing - 1)}
+        >
+          <ChevronLeft />
+        </Button>
+        <span className="tabular-nums">
+          {viewing + 1}/{count}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          aria-label="Next version"
+          disabled={viewing === count - 1}
+          onClick={() => onView(viewing + 1)}
+        >
+          <ChevronRight />
+        </Button>
+        {viewing === kept ? (
+          <span className="flex items-center gap-1 px-1">
+            <Check className="h-3 w-3" /> Kept
+          </span>
+        ) : (
+          <Button variant="ghost" size="sm" className="h-6 px-2" disabled={disabled} onClick={() => onKeep(viewing)}>
+            Keep this version
+          </Button>
+        )}
+      </>
+    )}
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2"
+      aria-label={`Regenerate answer ${questionNumber}`}
+      disabled={disabled || regenerating}
+      onClick={onRegenerate}
+    >
+      {regenerating ? <Loader2 className="animate-spin" /> : <RefreshCw />} Regenerate
+    </Button>
+  </div>
+);
+
+export default AnswerVersionControls;
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { BookOpen } from "lucide-react";
+import type { AnswerSource } from "@/lib/rag-protocol";
+
+const EXCERPT_PREVIEW_CHARS = 280;
+
+const formatCitation = (source: AnswerSource) => `${source.standard}.${source.paragraph}`;
+
+const formatScore = (score?: number) => (typeof score === "number" ? `${Math.round(score * 100)}% match` : null);
+
+/**
+ * Citation chips for the passages an answer was based on. Hovering a chip previews the
+ * retrieved excerpt; clicking opens the full excerpt in a side sheet.
+ */
+const CitationChips: React.FC<{ sources: AnswerSource[] }> = ({ sources }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const selected = openIndex === null ? null : sources[openIndex];
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-muted-foreground">Sources:</span>
+      {sources.map((source, i) => (
+        <HoverCard key={`${formatCitation(source)}-${i}`} openDelay={200}>
+          <HoverCardTrigger asChild>
+            <button
+              type="button"
+              onClick={() => setOpenIndex(i)}
+              className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5 text-xs font-medium text-foreground transition-colors hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring"
+            >
+              <BookOpen className="h-3 w-3" />
+              {formatCitation(source)}
+            </button>
+          </HoverCardTrigger>
+          <HoverCardContent className="w-80 text-sm">
+            <div className="mb-1 font-semibold">
+              {source.standard} ¶{source.paragraph}
+            </div>
+            <p className="text-muted-foreground">
+              {source.excerpt.length > EXCERPT_PREVIEW_CHARS
+                ? `${source.excerpt.slice(0, EXCERPT_PREVIEW_CHARS)}…`
+                : source.excerpt}
+            </p>
+            {formatScore(source.score) && (
+              <div className="mt-2 text-xs text-muted-foreground">{formatScore(source.score)}</div>
+            )}
+          </HoverCardContent>
+        </HoverCard>
+      ))}
+
+      <Sheet open={selected !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <SheetContent className="overflow-y-auto sm:max-w-lg">
+          {selected && (
+            <>
+              <SheetHeader>
+                <SheetTitle>
+                  {selected.standard}, paragraph {selected.paragraph}
+                </SheetTitle>
+                <SheetDescription>
+                  Retrieved excerpt{formatScore(selected.score) ? ` • ${formatScore(selected.score)}` : ""}
+                </SheetDescription>
+              </SheetHeader>
+              <blockquote className="mt-4 whitespace-pre-wrap border-l-2 pl-4 text-sm">{selected.excerpt}</blockquote>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default CitationChips;
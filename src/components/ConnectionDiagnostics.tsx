@@ -0,0 +1,128 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Activity, ChevronDown, Copy, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { formatDiagnosticsReport, type SessionDiagnostics } from "@/lib/rag-diagnostics";
+import { formatBytes } from "@/lib/utils";
+
+export const ConnectionBadge = ({ diagnostics }: { diagnostics: SessionDiagnostics }) => {
+  const { state, lastClose } = diagnostics;
+  switch (state) {
+    case "connecting":
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" /> Connecting
+        </Badge>
+      );
+    case "open":
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <span className="h-2 w-2 rounded-full bg-green-600" /> Connected
+        </Badge>
+      );
+    case "reconnecting":
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" /> Reconnecting
+        </Badge>
+      );
+    case "closed":
+      return <Badge variant="outline">Closed{lastClose ? ` · ${lastClose.code}` : ""}</Badge>;
+    case "error":
+      return <Badge variant="destructive">Error{lastClose ? ` · ${lastClose.code}` : ""}</Badge>;
+    default:
+      return null;
+  }
+};
+
+const levelClass = {
+  info: "text-muted-foreground",
+  warn: "text-amber-600",
+  error: "text-destructive",
+} as const;
+
+interface ConnectionDiagnosticsProps {
+  diagnostics: SessionDiagnostics;
+  /** Extra lines for the copied report, e.g. the session id and model. */
+  context: Record<string, string | null>;
+}
+
+/** Collapsible connection log with timings and payload sizes, plus a copy-to-clipboard report. */
+const ConnectionDiagnostics: React.FC<ConnectionDiagnosticsProps> = ({ diagnostics, context }) => {
+  const latencies = Object.entries(diagnostics.latencyMs);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnosticsReport(diagnostics, context));
+      toast({ title: "Diagnostics copied", description: "Paste them into your bug report." });
+    } catch {
+      toast({ title: "Could not copy diagnostics", description: "Your browser blocked clipboard access." });
+    }
+  };
+
+  return (
+    <Collapsible className="mt-4 rounded-md border">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <Activity /> Diagnostics
+          </span>
+          <ChevronDown />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 px-4 pb-4 text-sm">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          <dt className="text-muted-foreground">Endpoint</dt>
+          <dd className="break-all">{diagnostics.url ?? "—"}</dd>
+          <dt className="text-muted-foreground">State</dt>
+          <dd>{diagnostics.state}</dd>
+          <dt className="text-muted-foreground">Last close</dt>
+          <dd>
+            {diagnostics.lastClose
+              ? `${diagnostics.lastClose.code}${diagnostics.lastClose.reason ? ` — ${diagnostics.lastClose.reason}` : ""}`
+              : "—"}
+          </dd>
+          <dt className="text-muted-foreground">Payload sizes</dt>
+          <dd>
+            {formatBytes(diagnostics.bytesSent)} sent · {formatBytes(diagnostics.bytesReceived)} received
+          </dd>
+        </dl>
+
+        <div>
+          <h4 className="mb-1 font-medium">Latency per question</h4>
+          {latencies.length === 0 ? (
+            <p className="text-muted-foreground">No answers yet.</p>
+          ) : (
+            <ul className="flex flex-wrap gap-2">
+              {latencies.map(([n, ms]) => (
+                <li key={n} className="rounded border px-2 py-0.5 font-mono text-xs">
+                  Q{n}: {(ms / 1000).toFixed(1)}s
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4 className="mb-1 font-medium">Event log</h4>
+          <ol className="max-h-48 overflow-y-auto rounded bg-muted p-2 font-mono text-xs">
+            {diagnostics.log.map((event, i) => (
+              <li key={i} className={levelClass[event.level]}>
+                {new Date(event.at).toLocaleTimeString()} {event.message}
+                {event.bytes ? ` (${formatBytes(event.bytes)})` : ""}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={copy}>
+          <Copy className="mr-1" /> Copy diagnostics
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ConnectionDiagnostics;
@@ -0,0 +1,44 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileDown, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { exportSessionMemo, type MemoFormat } from "@/lib/memo-export";
+import type { StoredSession } from "@/lib/session-store";
+
+const ExportMemoMenu: React.FC<{ session: StoredSession }> = ({ session }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: MemoFormat) => {
+    setExporting(true);
+    try {
+      await exportSessionMemo(session, format);
+    } catch (err) {
+      console.error("[IFRS export] Memo export failed", err);
+      toast({ title: "Export failed", description: "The memo could not be generated. See console for details." });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting}>
+          {exporting ? <Loader2 className="mr-1 animate-spin" /> : <FileDown className="mr-1" />} Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport("pdf")}>Memo as PDF</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("docx")}>Memo as Word (.docx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMemoMenu;
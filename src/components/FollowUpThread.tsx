@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, MessageSquareReply, Send } from "lucide-react";
+import CitationChips from "@/components/CitationChips";
+import Markdown from "@/components/Markdown";
+import type { FollowUpState } from "@/hooks/use-rag-session";
+
+const ThreadDots = () => (
+  <div className="flex items-center gap-1 py-1">
+    <span className="inline-block h-1.5 w-1.5 rounded-full bg-foreground/60 animate-bounce [animation-delay:-0.2s]" />
+    <span className="inline-block h-1.5 w-1.5 rounded-full bg-foreground/60 animate-bounce" />
+    <span className="inline-block h-1.5 w-1.5 rounded-full bg-foreground/60 animate-bounce [animation-delay:0.2s]" />
+  </div>
+);
+
+interface FollowUpThreadProps {
+  parentQuestionNumber: number;
+  followUps: FollowUpState[];
+  /** Omit to render the thread read-only. */
+  onAsk?: (question: string) => void;
+  disabled?: boolean;
+}
+
+/** Follow-up questions nested under one answer, plus the box to ask another. */
+const FollowUpThread: React.FC<FollowUpThreadProps> = ({ parentQuestionNumber, followUps, onAsk, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const submit = () => {
+    const question = draft.trim();
+    if (!question || !onAsk) return;
+    onAsk(question);
+    setDraft("");
+    setOpen(false);
+  };
+
+  if (followUps.length === 0 && !onAsk) return null;
+
+  return (
+    <div className="ml-4 space-y-3 border-l-2 pl-4 md:ml-8">
+      {followUps.map((f) => (
+        <div key={f.id} className="space-y-1 text-sm">
+          <div className="font-medium">
+            <span className="text-muted-foreground">Follow-up: </span>
+            {f.question}
+          </div>
+          {f.status === "pending" && <ThreadDots />}
+          {f.status === "failed" && (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4" /> {f.error}
+            </div>
+          )}
+          {f.answer && (
+            <div className="rounded-md bg-muted px-3 py-2">
+              <Markdown className="md:prose-sm">{f.answer.answer}</Markdown>
+              {f.answer.sources && <CitationChips sources={f.answer.sources} />}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {onAsk &&
+        (open ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={2}
+              autoFocus
+              placeholder={`Ask a follow-up to question ${parentQuestionNumber}…`}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+              }}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={submit} disabled={disabled || !draft.trim()}>
+                <Send className="mr-1" /> Send
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="ghost" size="sm" onClick={() => setOpen(true)} disabled={disabled}>
+            <MessageSquareReply className="mr-1" /> Ask follow-up
+          </Button>
+        ))}
+    </div>
+  );
+};
+
+export default FollowUpThread;
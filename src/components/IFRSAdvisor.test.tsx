@@ -0,0 +1,487 @@
+import React from "react";
+import { act, render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter } from "react-router-dom";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import IFRSAdvisor from "@/components/IFRSAdvisor";
+import { Toaster } from "@/components/ui/toaster";
+import { listSessions } from "@/lib/session-store";
+import { FakeWebSocket } from "@/test/fake-websocket";
+
+const BACKGROUND = "Company A leases an office building for 10 years at 100,000 per year.";
+
+const renderAdvisor = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter>
+        <IFRSAdvisor />
+        <Toaster />
+      </MemoryRouter>
+    </QueryClientProvider>,
+  );
+};
+
+/** Fills the form and submits; returns the socket the session was started on. */
+const submit = async (user: ReturnType<typeof userEvent.setup>, questions: string[]) => {
+  await user.click(screen.getByRole("textbox", { name: "Background" }));
+  await user.paste(BACKGROUND);
+  for (const [i, question] of questions.entries()) {
+    if (i > 0) await user.click(screen.getByRole("button", { name: /add another question/i }));
+    await user.click(screen.getByRole("textbox", { name: `Question ${i + 1}` }));
+    await user.paste(question);
+  }
+  await user.click(screen.getByRole("button", { name: /submit to ifrs advisor/i }));
+  return FakeWebSocket.last();
+};
+
+/** Waits for the socket after `previous` to be created, e.g. once a token has been fetched. */
+const nextSocket = (previous: FakeWebSocket | null) =>
+  vi.waitFor(() => {
+    const socket = FakeWebSocket.last();
+    if (socket === previous) throw new Error("No new socket yet");
+    return socket;
+  });
+
+const signIn = (credentials: object) => localStorage.setItem("ifrs-advisor:auth", JSON.stringify(credentials));
+
+const answer = (question_number: number, question: string, sent_in_order = true) => ({
+  type: "answer",
+  question_number,
+  question,
+  answer: `Answer to ${question}`,
+  timestamp: new Date().toISOString(),
+  sent_in_order,
+});
+
+describe("IFRSAdvisor session flow", () => {
+  beforeEach(() => {
+    FakeWebSocket.reset();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "debug").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("shows inline errors and sends nothing when the form is invalid", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socketsBefore = FakeWebSocket.instances.length;
+
+    await user.click(screen.getByRole("button", { name: /submit to ifrs advisor/i }));
+
+    expect(await screen.findByText("Describe your IFRS scenario.")).toBeInTheDocument();
+    expect(screen.getByText("Add at least one question.")).toBeInTheDocument();
+    expect(FakeWebSocket.instances).toHaveLength(socketsBefore);
+  });
+
+  it("flags duplicate questions", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socketsBefore = FakeWebSocket.instances.length;
+
+    await submit(user, ["How is the lease term determined?", "how is the lease  term determined?"]);
+
+    expect(await screen.findByText("Same as question 1.")).toBeInTheDocument();
+    expect(FakeWebSocket.instances).toHaveLength(socketsBefore);
+  });
+
+  it("sends a process_questions payload once the socket opens", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+
+    const socket = await submit(user, ["  What is the lease term? ", "Which discount rate applies?"]);
+    expect(socket.sent).toEqual([]);
+    act(() => socket.open());
+
+    expect(socket.sent).toEqual([
+      {
+        type: "process_questions",
+        session_id: expect.any(String),
+        background: BACKGROUND,
+        questions: ["What is the lease term?", "Which discount rate applies?"],
+        model: "gpt-4o-mini",
+      },
+    ]);
+  });
+
+  it("sorts out-of-order answers by question number and clears their typing indicators", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?", "Second?"]);
+    act(() => socket.open());
+
+    expect(screen.getByRole("button", { name: "Cancel question 1" })).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Cancel question 2" })).toBeInTheDocument();
+
+    act(() => socket.receive(answer(2, "Second?", false)));
+    expect(screen.queryByRole("button", { name: "Cancel question 2" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Cancel question 1" })).toBeInTheDocument();
+    expect(screen.getByText(/results may arrive out of order/i)).toBeInTheDocument();
+
+    act(() => socket.receive(answer(1, "First?", false)));
+    expect(screen.queryByRole("button", { name: /cancel question/i })).not.toBeInTheDocument();
+
+    const answers = screen.getAllByText(/^Answer to /).map((el) => el.textContent);
+    expect(answers).toEqual(["Answer to First?", "Answer to Second?"]);
+  });
+
+  it("ignores frames that belong to another session", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+    act(() => socket.open());
+    const sessionId = (socket.sent[0] as { session_id: string }).session_id;
+
+    act(() => socket.receive({ ...answer(1, "Stale?"), session_id: "previous-session" }));
+    expect(screen.queryByText("Answer to Stale?")).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Cancel question 1" })).toBeInTheDocument();
+
+    act(() => socket.receive({ ...answer(1, "First?"), session_id: sessionId }));
+    expect(screen.getByText("Answer to First?")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /diagnostics/i }));
+    expect(screen.getByText(/Ignored answer for another session \(previous-session\)/)).toBeInTheDocument();
+  });
+
+  it("renders the summary and ends the session", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+    act(() => socket.open());
+    act(() => socket.receive(answer(1, "First?")));
+
+    act(() => socket.receive({ type: "summary", summary: "Recognise a **right-of-use asset**." }));
+
+    const summary = await screen.findByRole("heading", { name: "Session Summary" });
+    const card = summary.closest("section") as HTMLElement;
+    expect(within(card).getByText("right-of-use asset")).toBeInTheDocument();
+    expect(screen.queryByText("Processing session…")).not.toBeInTheDocument();
+  });
+
+  it("times out when the socket does not open within 10 seconds", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ transport: "websocket" }));
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+
+    act(() => vi.advanceTimersByTime(9_000));
+    expect(screen.queryByText("Connection timeout")).not.toBeInTheDocument();
+
+    act(() => vi.advanceTimersByTime(1_000));
+    expect(await screen.findByText("Connection timeout")).toBeInTheDocument();
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(screen.queryByText("Processing session…")).not.toBeInTheDocument();
+  });
+
+  it("reports the close when the socket fails before opening", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ transport: "websocket" }));
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+
+    act(() => {
+      socket.fail();
+      socket.serverClose(1006);
+    });
+
+    // Only one toast is shown at a time, so the close notice replaces the error one
+    expect(await screen.findByText("Connection closed (1006)")).toBeInTheDocument();
+    expect(screen.getByText("No answer received — the connection was closed.")).toBeInTheDocument();
+    expect(screen.queryByText("Processing session…")).not.toBeInTheDocument();
+  });
+
+  it("marks unanswered questions failed when the server closes the session", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?", "Second?"]);
+    act(() => socket.open());
+    act(() => socket.receive(answer(1, "First?")));
+
+    act(() => socket.serverClose(1000));
+
+    expect(screen.getByText("Answer to First?")).toBeInTheDocument();
+    expect(screen.getByText("No answer received — the connection was closed.")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /cancel question/i })).not.toBeInTheDocument();
+  });
+
+  it("shows the connection state and a diagnostics log", async () => {
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?", "Second?"]);
+    expect(screen.getByText("Connecting")).toBeInTheDocument();
+
+    act(() => socket.open());
+    expect(screen.getByText("Connected")).toBeInTheDocument();
+
+    act(() => socket.receive(answer(1, "First?")));
+    act(() => socket.serverClose(1011, "Internal error"));
+    // The socket had opened, so the client retries the unanswered question
+    expect(screen.getByText("Reconnecting")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /diagnostics/i }));
+    expect(screen.getByText(/Sent process_questions with 2 question\(s\)/)).toBeInTheDocument();
+    expect(screen.getByText(/^Q1: /)).toBeInTheDocument();
+    expect(screen.getByText("1011 — Internal error")).toBeInTheDocument();
+  });
+
+  it("falls back to HTTP streaming when the WebSocket handshake fails", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ wsUrl: "wss://blocked.example.com/ws/rag/" }));
+    const frames = [answer(1, "First?"), { type: "summary", summary: "Lease accounting applies." }];
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(frames.map((frame) => `data: ${JSON.stringify(frame)}\n\n`).join(""), {
+          headers: { "Content-Type": "text/event-stream" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const user = userEvent.setup();
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+
+    act(() => {
+      socket.fail();
+      socket.serverClose(1006);
+    });
+
+    expect(await screen.findByText("Answer to First?")).toBeInTheDocument();
+    expect(await screen.findByRole("heading", { name: "Session Summary" })).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("https://blocked.example.com/ws/rag/", expect.objectContaining({ method: "POST" }));
+    const [, init] = (fetchMock.mock.calls as unknown as [string, RequestInit][]).find(([, init]) => init.method === "POST")!;
+    expect(JSON.parse(init.body as string)).toMatchObject({ type: "process_questions", questions: ["First?"] });
+
+    await user.click(screen.getByRole("button", { name: /diagnostics/i }));
+    expect(screen.getByText(/Connected via HTTP streaming/)).toBeInTheDocument();
+  });
+
+  it("falls back to HTTP streaming when the WebSocket handshake hangs", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ wsUrl: "wss://hanging.example.com/ws/rag/" }));
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(`data: ${JSON.stringify(answer(1, "First?"))}\n\n`, { headers: { "Content-Type": "text/event-stream" } }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+
+    act(() => vi.advanceTimersByTime(10_000));
+
+    expect(await screen.findByText("Answer to First?")).toBeInTheDocument();
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(fetchMock).toHaveBeenCalledWith("https://hanging.example.com/ws/rag/", expect.objectContaining({ method: "POST" }));
+    expect(screen.queryByText("Connection timeout")).not.toBeInTheDocument();
+  });
+
+  it("checks the HTTP streaming endpoint instead of the WebSocket when that is the transport", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ transport: "http", httpUrl: "https://rag.example.com/stream" }));
+    const fetchMock = vi.fn(async () => new Response(null, { status: 405 }));
+    vi.stubGlobal("fetch", fetchMock);
+    renderAdvisor();
+
+    expect(await screen.findByText(/Endpoint reachable via HTTP streaming/)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("https://rag.example.com/stream", expect.objectContaining({ method: "HEAD" }));
+    expect(FakeWebSocket.instances).toHaveLength(0);
+  });
+
+  it("still delivers the cancel request when a session over HTTP streaming is stopped", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ transport: "http" }));
+    /** Message types whose request was still live when the "server" got to it. */
+    const delivered: string[] = [];
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      // The endpoint health check
+      if (init.method === "HEAD") return new Response(null);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      if (init.signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+      const { type } = JSON.parse(init.body as string);
+      delivered.push(type);
+      return type === "process_questions"
+        ? // The primary stream stays open until the socket is closed
+          new Response(new ReadableStream(), { headers: { "Content-Type": "text/event-stream", "X-Rag-Stream-Id": "stream-1" } })
+        : new Response(null, { status: 204 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const user = userEvent.setup();
+    renderAdvisor();
+    await user.click(screen.getByRole("textbox", { name: "Background" }));
+    await user.paste(BACKGROUND);
+    await user.click(screen.getByRole("textbox", { name: "Question 1" }));
+    await user.paste("First?");
+    await user.click(screen.getByRole("button", { name: /submit to ifrs advisor/i }));
+    const callOf = (type: string) =>
+      fetchMock.mock.calls.find(([, init]) => init.method === "POST" && JSON.parse(init.body as string).type === type)?.[1];
+    await vi.waitFor(() => expect(delivered).toContain("process_questions"));
+
+    await user.click(screen.getByRole("button", { name: /stop/i }));
+
+    await vi.waitFor(() => expect(delivered).toContain("cancel"));
+    expect(callOf("cancel")?.headers).toMatchObject({ "X-Rag-Stream-Id": "stream-1" });
+    expect(callOf("process_questions")?.signal?.aborted).toBe(true);
+  });
+
+  it("sends the API key in an auth frame before the payload", async () => {
+    vi.stubEnv("VITE_AUTH_METHODS", "api_key");
+    signIn({ method: "api_key", token: "secret-key" });
+    const user = userEvent.setup();
+    renderAdvisor();
+
+    await submit(user, ["First?"]);
+    const socket = await nextSocket(null);
+    act(() => socket.open());
+
+    expect(socket.sent).toEqual([
+      { type: "auth", token: "secret-key" },
+      expect.objectContaining({ type: "process_questions", questions: ["First?"] }),
+    ]);
+  });
+
+  it("renews an OIDC token and resumes the session when the server rejects it", async () => {
+    vi.stubEnv("VITE_AUTH_METHODS", "oidc");
+    vi.stubEnv("VITE_OIDC_ISSUER", "https://login.example.com");
+    vi.stubEnv("VITE_OIDC_CLIENT_ID", "ifrs-advisor");
+    signIn({ method: "oidc", token: "old-token", refreshToken: "refresh-1", expiresAt: Date.now() + 3_600_000 });
+    const fetchMock = vi.fn(async (url: string) =>
+      Response.json(
+        url.endsWith("/.well-known/openid-configuration")
+          ? { authorization_endpoint: "https://login.example.com/auth", token_endpoint: "https://login.example.com/token" }
+          : { access_token: "new-token", refresh_token: "refresh-2", expires_in: 3600 },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const user = userEvent.setup();
+    renderAdvisor();
+
+    await submit(user, ["First?", "Second?"]);
+    const first = await nextSocket(null);
+    act(() => first.open());
+    act(() => first.receive(answer(1, "First?")));
+    act(() => first.receive({ type: "auth_error", code: "expired", reason: "Token expired" }));
+
+    const second = await nextSocket(first);
+    act(() => second.open());
+    expect(second.sent).toEqual([
+      { type: "auth", token: "new-token" },
+      expect.objectContaining({ type: "process_questions", questions: ["Second?"], resume: expect.objectContaining({ question_numbers: [2] }) }),
+    ]);
+    const [, init] = (fetchMock.mock.calls as unknown as [string, RequestInit][]).find(
+      ([url]) => url === "https://login.example.com/token",
+    )!;
+    expect(String(init.body)).toContain("grant_type=refresh_token");
+    expect(JSON.parse(localStorage.getItem("ifrs-advisor:auth") as string)).toMatchObject({ token: "new-token", refreshToken: "refresh-2" });
+
+    act(() => second.receive(answer(1, "Second?")));
+    expect(screen.getByText("Answer to Second?")).toBeInTheDocument();
+  });
+
+  it("signs out when an API key is rejected", async () => {
+    vi.stubEnv("VITE_AUTH_METHODS", "api_key");
+    signIn({ method: "api_key", token: "revoked-key" });
+    const user = userEvent.setup();
+    renderAdvisor();
+
+    await submit(user, ["First?"]);
+    const socket = await nextSocket(null);
+    act(() => socket.open());
+    act(() => socket.receive({ type: "auth_error", code: "invalid", reason: "Unknown key" }));
+
+    expect(await screen.findByText("Sign-in required")).toBeInTheDocument();
+    expect(screen.getByText("Your credentials were rejected. Sign in again.")).toBeInTheDocument();
+    expect(localStorage.getItem("ifrs-advisor:auth")).toBeNull();
+    expect(screen.queryByText("Processing session…")).not.toBeInTheDocument();
+  });
+
+  it("pings the server and shows that it is still working when answers are slow", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+    act(() => socket.open());
+    const sessionId = (socket.sent[0] as { session_id: string }).session_id;
+
+    act(() => vi.advanceTimersByTime(15_000));
+    expect(socket.sent.at(-1)).toEqual({ type: "ping", session_id: sessionId });
+    act(() => socket.receive({ type: "pong", session_id: sessionId }));
+    expect(screen.queryByText(/Server still working/)).not.toBeInTheDocument();
+
+    act(() => vi.advanceTimersByTime(15_000));
+    act(() => socket.receive({ type: "pong", session_id: sessionId }));
+    expect(screen.getByText(/Server still working — no update for 30s/)).toBeInTheDocument();
+
+    act(() => socket.receive(answer(1, "First?")));
+    expect(screen.queryByText(/Server still working/)).not.toBeInTheDocument();
+  });
+
+  it("drops and resumes the connection when the server stops answering pings", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+    act(() => socket.open());
+
+    act(() => vi.advanceTimersByTime(15_000));
+    act(() => socket.receive({ type: "pong" }));
+    act(() => vi.advanceTimersByTime(60_000));
+
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(screen.getByText("Reconnecting")).toBeInTheDocument();
+    act(() => vi.advanceTimersByTime(1_000));
+    expect(FakeWebSocket.last()).not.toBe(socket);
+  });
+
+  it("marks a question timed out after the configured limit", async () => {
+    localStorage.setItem("ifrs-advisor:rag-settings", JSON.stringify({ questionTimeoutSeconds: 30 }));
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?", "Second?"]);
+    act(() => socket.open());
+    act(() => vi.advanceTimersByTime(20_000));
+    act(() => socket.receive(answer(1, "First?")));
+
+    act(() => vi.advanceTimersByTime(10_000));
+    expect(screen.getByText("Timed out — no answer within 30s.")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Cancel question 2" })).not.toBeInTheDocument();
+    expect(socket.sent).toContainEqual(expect.objectContaining({ type: "cancel", question_number: 2 }));
+    expect(screen.getByText("Answer to First?")).toBeInTheDocument();
+  });
+
+  it("shows the server's stages while a question is pending and stores their durations", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    renderAdvisor();
+    const socket = await submit(user, ["First?"]);
+    act(() => socket.open());
+
+    act(() => socket.receive({ type: "progress", question_number: 1, stage: "retrieving" }));
+    act(() => vi.advanceTimersByTime(2_000));
+    act(() => socket.receive({ type: "progress", question_number: 1, stage: "generating", percent: 40 }));
+
+    const timeline = screen.getByRole("list", { name: "Answer progress" });
+    expect(within(timeline).getByText(/Retrieving/)).toHaveTextContent(/Retrieving 2\.\ds/);
+    expect(within(timeline).getByText(/Generating/)).toHaveTextContent("Generating40%");
+
+    act(() => vi.advanceTimersByTime(3_000));
+    act(() => socket.receive(answer(1, "First?")));
+    expect(screen.queryByRole("list", { name: "Answer progress" })).not.toBeInTheDocument();
+
+    act(() => socket.receive({ type: "summary", summary: "Done." }));
+    // Earlier tests leave their sessions in the same database
+    const stored = await vi.waitFor(async () => {
+      const session = (await listSessions()).find((s) => s.stageTimings);
+      if (!session) throw new Error("Session not saved yet");
+      return session;
+    });
+    expect(stored.stageTimings?.[1].map((t) => t.stage)).toEqual(["retrieving", "generating"]);
+    expect(stored.stageTimings?.[1][1].durationMs).toBeGreaterThanOrEqual(3_000);
+  });
+});
@@ -1,29 +1,54 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import { Input } from "@/components/ui/input";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Trash2, Plus, Send, AlertTriangle, Loader2, ChevronDown } from "lucide-react";
-import ReactMarkdown from "react-markdown";
-import { toast } from "@/hooks/use-toast";
-
-interface AnswerMessage {
-  type: "answer";
-  question_number: number;
-  question: string;
-  answer: string;
-  timestamp?: string;
-}
-
-interface SummaryMessage {
-  type: "summary";
-  summary: string;
-  timestamp?: string;
-  sent_in_order?: boolean;
-}
-
-type IncomingMessage = AnswerMessage | SummaryMessage | Record<string, any>;
+import { Send, AlertTriangle, Loader2, ChevronDown, RefreshCw, Square, X, Ban, Link2, Timer, Activity } from "lucide-react";
+import { Link } from "react-router-dom";
+import AnswerVersionControls from "@/components/AnswerVersionControls";
+import CitationChips from "@/components/CitationChips";
+import ConnectionDiagnostics, { ConnectionBadge } from "@/components/ConnectionDiagnostics";
+import ExportMemoMenu from "@/components/ExportMemoMenu";
+import FollowUpThread from "@/components/FollowUpThread";
+import Markdown from "@/components/Markdown";
+import QuestionListField from "@/components/QuestionListField";
+import RagSettingsDialog, { EndpointHealthStatus } from "@/components/RagSettingsDialog";
+import ScenarioTemplatePicker from "@/components/ScenarioTemplatePicker";
+import StageTimeline from "@/components/StageTimeline";
+import SupportingDocuments from "@/components/SupportingDocuments";
+import { useModels } from "@/hooks/use-models";
+import { useRagSession, type PendingStatus } from "@/hooks/use-rag-session";
+import {
+  adviceFormSchema,
+  estimateTokens,
+  filledQuestions,
+  MAX_BACKGROUND_CHARS,
+  PROMPT_TOKEN_BUDGET,
+  toAdviceFormValues,
+  type AdviceFormValues,
+} from "@/lib/advice-form";
+import {
+  attachmentLimitError,
+  toAttachmentPayload,
+  totalAttachmentChars,
+  type ExtractedAttachment,
+} from "@/lib/attachments";
+import {
+  checkEndpointHealth,
+  getPreferredModel,
+  getRagSettings,
+  savePreferredModel,
+  type EndpointHealth,
+  type RagSettings,
+} from "@/lib/rag-config";
+import type { StageEntry } from "@/lib/progress-stages";
+import type { StoredSession } from "@/lib/session-store";
+import { sessionPath } from "@/lib/session-share";
 
 const TypingDots = () => (
   <div className="flex items-center gap-1 px-3 py-2">
@@ -33,16 +58,83 @@ const TypingDots = () => (
   </div>
 );
 
+/** "45s" or "2m 05s". */
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+};
+
+const PendingAnswer = ({
+  status,
+  attempt,
+  draft,
+  stages,
+  timeoutMs,
+}: {
+  status: PendingStatus;
+  attempt: number | null;
+  draft?: string;
+  stages?: StageEntry[];
+  timeoutMs: number;
+}) => {
+  switch (status) {
+    case "retrying":
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          Connection lost — retrying{attempt ? ` (attempt ${attempt})` : ""}…
+        </span>
+      );
+    case "cancelled":
+      return (
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Ban className="h-4 w-4" />
+          Cancelled
+        </span>
+      );
+    case "timed_out":
+      return (
+        <span className="flex items-center gap-2 text-destructive">
+          <Timer className="h-4 w-4" />
+          Timed out — no answer within {formatDuration(timeoutMs)}.
+        </span>
+      );
+    case "failed":
+      return (
+        <span className="flex items-center gap-2 text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          No answer received — the connection was closed.
+        </span>
+      );
+    default:
+      return (
+        <div className="space-y-2">
+          {stages && stages.length > 0 && <StageTimeline stages={stages} />}
+          {draft ? (
+            <div>
+              <Markdown>{draft}</Markdown>
+              <span className="inline-block h-4 w-1.5 animate-pulse bg-foreground/60" aria-hidden />
+            </div>
+          ) : (
+            <TypingDots />
+          )}
+        </div>
+      );
+  }
+};
+
 const MessageBubble = ({
   side,
   content,
   timestamp,
   label,
+  action,
 }: {
   side: "left" | "right";
   content: React.ReactNode;
   timestamp?: string;
   label?: string;
+  action?: React.ReactNode;
 }) => {
   return (
     <div className={`flex ${side === "right" ? "justify-end" : "justify-start"}`}>
@@ -53,9 +145,10 @@ const MessageBubble = ({
             : "bg-muted text-foreground"
         }`}
       >
-        {label && (
-          <div className="text-xs opacity-80 mb-1">
-            {label}
+        {(label || action) && (
+          <div className="flex items-center justify-between gap-2 text-xs opacity-80 mb-1">
+            <span>{label}</span>
+            {action}
           </div>
         )}
         <div className="whitespace-pre-wrap break-words">
@@ -71,15 +164,45 @@ const MessageBubble = ({
   );
 };
 
-const IFRSAdvisor: React.FC = () => {
-  const [background, setBackground] = useState("");
-  const [questions, setQuestions] = useState<string[]>([""]);
-  const [ws, setWs] = useState<WebSocket | null>(null);
-  const [sessionLoading, setSessionLoading] = useState(false);
-  const [answers, setAnswers] = useState<Record<number, AnswerMessage>>({});
-  const [typing, setTyping] = useState<Record<number, boolean>>({});
-  const [summary, setSummary] = useState<SummaryMessage | null>(null);
-  const [sentInOrder, setSentInOrder] = useState<boolean | null>(null);
+interface IFRSAdvisorProps {
+  /** A stored session picked from the history; it replaces whatever is on screen. */
+  openedSession?: StoredSession | null;
+  onActiveSessionChange?: (sessionId: string | null) => void;
+}
+
+const IFRSAdvisor: React.FC<IFRSAdvisorProps> = ({ openedSession, onActiveSessionChange }) => {
+  const form = useForm<AdviceFormValues>({
+    resolver: zodResolver(adviceFormSchema),
+    defaultValues: toAdviceFormValues("", []),
+  });
+  const [attachments, setAttachments] = useState<ExtractedAttachment[]>([]);
+  const background = form.watch("background");
+  const questions = form.watch("questions");
+  const {
+    start,
+    stop,
+    cancelQuestion,
+    load,
+    askFollowUp,
+    followUps,
+    regenerate,
+    keepVersion,
+    refreshSummary,
+    answerVersions,
+    keptVersions,
+    regenerating,
+    summaryOutdated,
+    summaryRefreshing,
+    diagnostics,
+    sessionId, storedSession, sessionLoading, questions: sessionQuestions, model: sessionModel, answers, drafts, stages, pending, reconnectAttempt, serverIdleMs, questionTimeoutMs, summary, sentInOrder } = useRagSession();
+  const [ragSettings, setRagSettings] = useState<RagSettings>(() => getRagSettings());
+  const [health, setHealth] = useState<EndpointHealth>({ status: "unknown" });
+  /** Answer version on screen per question; defaults to the kept one. */
+  const [viewingVersion, setViewingVersion] = useState<Record<number, number>>({});
+  const { data: modelList, isPlaceholderData: modelsLoading } = useModels(ragSettings.wsUrl);
+  const [model, setModel] = useState<string | null>(() => getPreferredModel());
+  const models = modelList?.models ?? [];
+  const selectedModel = models.some((m) => m.id === model) ? model : models[0]?.id;
 
   const chatRef = useRef<HTMLDivElement | null>(null);
 
@@ -89,280 +212,300 @@ const IFRSAdvisor: React.FC = () => {
 
   useEffect(() => {
     chatRef.current?.scrollTo({ top: chatRef.current.scrollHeight, behavior: "smooth" });
-  }, [sortedAnswers.length, summary]);
+  }, [sortedAnswers.length, summary, drafts]);
 
   useEffect(() => {
-    return () => {
-      ws?.close();
-    };
-  }, [ws]);
+    if (!openedSession) return;
+    form.reset(toAdviceFormValues(openedSession.background, openedSession.questions));
+    // Stored sessions keep attachment names only, so there is nothing to re-attach
+    setAttachments([]);
+    load(openedSession);
+  }, [openedSession, load, form]);
 
-  const addQuestion = () => {
-    setQuestions((qs) => [...qs, ""]);
-  };
+  useEffect(() => {
+    onActiveSessionChange?.(sessionId);
+    setViewingVersion({});
+  }, [sessionId, onActiveSessionChange]);
 
-  const removeQuestion = (idx: number) => {
-    setQuestions((qs) => qs.filter((_, i) => i !== idx));
+  const handleRegenerate = async (questionNumber: number) => {
+    const index = await regenerate({ url: ragSettings.wsUrl, questionNumber });
+    if (index !== null) setViewingVersion((prev) => ({ ...prev, [questionNumber]: index }));
   };
 
-  const updateQuestion = (idx: number, value: string) => {
-    setQuestions((qs) => qs.map((q, i) => (i === idx ? value : q)));
+  const runHealthCheck = async (settings: RagSettings, signal?: AbortSignal) => {
+    setHealth({ status: "checking" });
+    const result = await checkEndpointHealth(settings, { signal });
+    if (!signal?.aborted) setHealth(result);
   };
 
-  const handleSubmit = () => {
-    const trimmedQuestions = questions.map((q) => q.trim()).filter((q) => q.length > 0);
-    if (!background.trim()) {
-      toast({ title: "Background is required", description: "Please describe your IFRS scenario." });
-      return;
-    }
-    if (trimmedQuestions.length === 0) {
-      toast({ title: "Add at least one question", description: "Please include one or more questions." });
-      return;
-    }
-
-    // Reset state for new session
-    setAnswers({});
-    setTyping(Object.fromEntries(trimmedQuestions.map((_, i) => [i + 1, true])));
-    setSummary(null);
-    setSentInOrder(null);
-    setSessionLoading(true);
-
-    const WS_URL = "wss://104.248.169.227:8443/ws/rag/";
-
-    // Verbose diagnostics
-    console.groupCollapsed("[IFRS WS] New session");
-    console.info("[IFRS WS] Preparing to connect", {
-      WS_URL,
-      timestamp: new Date().toISOString(),
-      pageProtocol: window.location.protocol,
-      secureContext: (window as any).isSecureContext,
-      backgroundLength: background.length,
-      questionCount: trimmedQuestions.length,
-    });
+  useEffect(() => {
+    // Stopped when the settings change or the advisor unmounts, so no probe outlives it
+    const controller = new AbortController();
+    runHealthCheck(ragSettings, controller.signal);
+    return () => controller.abort();
+  }, [ragSettings]);
+
+  const handleModelChange = (value: string) => {
+    setModel(value);
+    savePreferredModel(value);
+  };
 
-    let connectTimeout: number | undefined;
-    const socket = new WebSocket(WS_URL);
-    setWs(socket);
-
-    console.info("[IFRS WS] Connecting… readyState:", socket.readyState);
-
-    // Timeout if connection hangs
-    connectTimeout = window.setTimeout(() => {
-      if (socket.readyState === WebSocket.CONNECTING) {
-        console.error("[IFRS WS] Connection timeout after 10s");
-        try { socket.close(); } catch {}
-        setSessionLoading(false);
-        toast({
-          title: "Connection timeout",
-          description: "Could not establish a secure WebSocket within 10s. Check TLS/cert or server availability.",
-        });
-        console.groupEnd();
-      }
-    }, 10000);
-
-    socket.onopen = () => {
-      if (connectTimeout) clearTimeout(connectTimeout);
-      console.info("[IFRS WS] Connected (onopen). readyState:", socket.readyState);
-      const payload = {
-        type: "process_questions",
-        background: background.trim(),
-        questions: trimmedQuestions,
-        model: "gpt-4o-mini",
-      };
-      try {
-        console.debug("[IFRS WS] Sending payload:", {
-          ...payload,
-          // Avoid logging entire background/questions content if too long
-          backgroundPreview: payload.background.slice(0, 120),
-          questionsPreview: payload.questions.map((q) => q.slice(0, 80)),
-        });
-        socket.send(JSON.stringify(payload));
-        console.info("[IFRS WS] Payload sent successfully");
-      } catch (err) {
-        console.error("[IFRS WS] Failed to send payload", err);
-        setSessionLoading(false);
-        toast({ title: "Send failed", description: "Payload could not be sent. See console for details." });
-      }
-    };
-
-    socket.onmessage = (event) => {
-      console.debug("[IFRS WS] onmessage raw:", event.data);
-      try {
-        const data: IncomingMessage = JSON.parse(event.data);
-        if (typeof (data as any).sent_in_order === "boolean") {
-          setSentInOrder((data as any).sent_in_order);
-        }
-        if ((data as any).type === "answer") {
-          const msg = data as AnswerMessage;
-          console.debug("[IFRS WS] Answer received", msg);
-          setAnswers((prev) => ({ ...prev, [msg.question_number]: msg }));
-          setTyping((t) => ({ ...t, [msg.question_number]: false }));
-        } else if ((data as any).type === "summary") {
-          const msg = data as SummaryMessage;
-          console.debug("[IFRS WS] Summary received", msg);
-          setSummary(msg);
-          setSessionLoading(false);
-          console.groupEnd();
-        } else {
-          console.warn("[IFRS WS] Unknown message type", data);
-        }
-      } catch (e) {
-        console.error("[IFRS WS] Failed to parse message", e, {
-          sample: typeof event.data === "string" ? event.data.slice(0, 200) : event.data,
-        });
-      }
-    };
-
-    socket.onerror = (ev) => {
-      if (connectTimeout) clearTimeout(connectTimeout);
-      console.error("[IFRS WS] onerror fired", ev, { readyState: socket.readyState, url: WS_URL });
-      setSessionLoading(false);
-      toast({
-        title: "Connection error",
-        description: "WebSocket error occurred. Common causes: TLS certificate mismatch (IP vs domain), firewall, or server down.",
-      });
-      // Keep group open; onclose may follow
-    };
-
-    socket.onclose = (ev: CloseEvent) => {
-      if (connectTimeout) clearTimeout(connectTimeout);
-      console.warn("[IFRS WS] onclose", {
-        code: ev.code,
-        reason: ev.reason,
-        wasClean: ev.wasClean,
-        readyState: socket.readyState,
-      });
-      setSessionLoading(false);
-      if (ev.code !== 1000) {
-        toast({
-          title: `Connection closed (${ev.code})`,
-          description: ev.reason || "The connection was closed unexpectedly. See console for diagnostics.",
-        });
-      }
-      console.groupEnd();
-    };
+  const setBackground = (value: string) => {
+    form.setValue("background", value, { shouldDirty: true, shouldValidate: form.formState.isSubmitted });
   };
 
+  const attachmentChars = totalAttachmentChars(attachments);
+  const promptChars = background.length + attachmentChars + questions.reduce((sum, q) => sum + q.text.length, 0);
+  const promptTokens =
+    estimateTokens(background) +
+    attachments.reduce((sum, a) => sum + estimateTokens(a.text), 0) +
+    questions.reduce((sum, q) => sum + estimateTokens(q.text), 0);
+
+  const handleSubmit = form.handleSubmit((values) => {
+    // The documents card already shows why; nothing is sent until it is resolved
+    if (attachmentLimitError(attachments)) return;
+    start({
+      url: ragSettings.wsUrl,
+      background: values.background.trim(),
+      questions: filledQuestions(values),
+      model: selectedModel,
+      attachments: attachments.map(toAttachmentPayload),
+      questionTimeoutMs: ragSettings.questionTimeoutSeconds * 1000,
+    });
+  });
+
   return (
     <div className="w-full max-w-4xl mx-auto">
-      <header className="mb-6">
-        <h1 className="text-3xl md:text-4xl font-bold tracking-tight">IFRS Wise Advisor</h1>
-        <p className="text-muted-foreground mt-2">Provide background and questions, then receive AI-driven IFRS guidance.</p>
+      <header className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight">IFRS Wise Advisor</h1>
+          <p className="text-muted-foreground mt-2">Provide background and questions, then receive AI-driven IFRS guidance.</p>
+        </div>
+        <RagSettingsDialog onSaved={setRagSettings} />
       </header>
 
       <main>
-        <section aria-labelledby="background" className="mb-6">
-          <Card>
-            <CardHeader>
-              <CardTitle id="background">Background</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <Textarea
-                value={background}
-                onChange={(e) => setBackground(e.target.value)}
-                rows={6}
-                placeholder={'Describe your IFRS scenario here (e.g., "Company A owns an office building...")'}
-              />
-            </CardContent>
-          </Card>
-        </section>
+        <Form {...form}>
+          <section aria-labelledby="background" className="mb-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle id="background">Background</CardTitle>
+                <ScenarioTemplatePicker background={background} onChange={setBackground} />
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="background"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Textarea
+                          {...field}
+                          aria-labelledby="background"
+                          rows={6}
+                          placeholder={'Describe your IFRS scenario here (e.g., "Company A owns an office building...")'}
+                        />
+                      </FormControl>
+                      <FormDescription className="text-xs">
+                        {field.value.length.toLocaleString()} / {MAX_BACKGROUND_CHARS.toLocaleString()} characters
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </section>
 
-        <section aria-labelledby="questions" className="mb-6">
-          <Card>
-            <CardHeader>
-              <CardTitle id="questions">Questions</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {questions.map((q, idx) => (
-                  <div key={idx} className="flex items-start gap-2">
-                    <Input
-                      value={q}
-                      onChange={(e) => updateQuestion(idx, e.target.value)}
-                      placeholder={`Question ${idx + 1}`}
-                    />
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      aria-label={`Remove question ${idx + 1}`}
-                      onClick={() => removeQuestion(idx)}
-                      className="shrink-0"
-                    >
-                      <Trash2 />
-                    </Button>
-                  </div>
-                ))}
-                <div>
-                  <Button variant="secondary" onClick={addQuestion}>
-                    <Plus className="mr-1" /> Add Another Question
+          <section aria-labelledby="attachments" className="mb-6">
+            <SupportingDocuments attachments={attachments} onChange={setAttachments} disabled={sessionLoading} />
+          </section>
+
+          <section aria-labelledby="questions" className="mb-6">
+            <Card>
+              <CardHeader>
+                <CardTitle id="questions">Questions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <QuestionListField />
+
+                <p className={`mt-4 text-xs ${promptTokens > PROMPT_TOKEN_BUDGET ? "text-destructive" : "text-muted-foreground"}`}>
+                  {promptChars.toLocaleString()} characters · ~{promptTokens.toLocaleString()} tokens
+                  {promptTokens > PROMPT_TOKEN_BUDGET &&
+                    ` — above the ~${PROMPT_TOKEN_BUDGET.toLocaleString()} token budget; answers may be truncated.`}
+                </p>
+
+                <div className="mt-6 space-y-2">
+                  <Label htmlFor="model-select">Model</Label>
+                  <Select value={selectedModel} onValueChange={handleModelChange} disabled={sessionLoading}>
+                    <SelectTrigger id="model-select" className="w-full sm:w-64">
+                      <SelectValue placeholder="Choose a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {modelList?.source === "config" && !modelsLoading && (
+                    <p className="text-xs text-muted-foreground">The server did not list its models; showing the configured list.</p>
+                  )}
+                </div>
+
+                <div className="mt-6 flex items-center gap-3">
+                  <Button onClick={handleSubmit}>
+                    <Send className="mr-2" /> Submit to IFRS Advisor
                   </Button>
+                  {sessionLoading && (
+                    <Button variant="outline" onClick={stop}>
+                      <Square className="mr-2" /> Stop
+                    </Button>
+                  )}
+                  {sessionLoading && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Loader2 className="animate-spin" />
+                      <span>{reconnectAttempt ? `Reconnecting (attempt ${reconnectAttempt})…` : "Processing session…"}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              <div className="mt-6 flex items-center gap-3">
-                <Button onClick={handleSubmit}>
-                  <Send className="mr-2" /> Submit to IFRS Advisor
-                </Button>
-                {sessionLoading && (
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <Loader2 className="animate-spin" />
-                    <span>Processing session…</span>
+                {!sessionLoading && (
+                  <div className="mt-3 flex items-center gap-2">
+                    <EndpointHealthStatus health={health} />
+                    {health.status !== "checking" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Re-check endpoint"
+                        onClick={() => runHealthCheck(ragSettings)}
+                      >
+                        <RefreshCw />
+                      </Button>
+                    )}
                   </div>
                 )}
-              </div>
 
-              {sentInOrder === false && (
-                <div className="mt-3 flex items-center gap-2 text-sm text-foreground">
-                  <AlertTriangle className="text-destructive" />
-                  Results may arrive out of order; they will be sorted by question number.
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </section>
+                {sentInOrder === false && (
+                  <div className="mt-3 flex items-center gap-2 text-sm text-foreground">
+                    <AlertTriangle className="text-destructive" />
+                    Results may arrive out of order; they will be sorted by question number.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </section>
+
+        </Form>
 
         <section aria-labelledby="chat-output" className="mb-6">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle id="chat-output">Assistant Responses</CardTitle>
+              <ConnectionBadge diagnostics={diagnostics} />
             </CardHeader>
             <CardContent>
               <div ref={chatRef} className="max-h-[50vh] overflow-y-auto pr-2 space-y-4">
-                {sortedAnswers.map((msg) => (
-                  <div key={`q-${msg.question_number}`} className="space-y-2">
+                {sortedAnswers.map((kept) => {
+                  const n = kept.question_number;
+                  const versions = answerVersions[n] ?? [kept];
+                  const keptIndex = keptVersions[n] ?? 0;
+                  const viewing = Math.min(viewingVersion[n] ?? keptIndex, versions.length - 1);
+                  const msg = versions[viewing] ?? kept;
+                  return (
+                    <div key={`q-${n}`} className="space-y-2">
+                      <MessageBubble
+                        side="right"
+                        label={`Question ${n}`}
+                        content={<span>{msg.question}</span>}
+                        timestamp={msg.timestamp}
+                      />
+                      <MessageBubble
+                        side="left"
+                        label={`IFRS Advisor · ${msg.model ?? sessionModel}`}
+                        content={
+                          <>
+                            <Markdown>{msg.answer}</Markdown>
+                            {msg.sources && <CitationChips sources={msg.sources} />}
+                          </>
+                        }
+                        timestamp={msg.timestamp}
+                        action={
+                          <AnswerVersionControls
+                            questionNumber={n}
+                            count={versions.length}
+                            viewing={viewing}
+                            kept={keptIndex}
+                            regenerating={!!regenerating[n]}
+                            disabled={sessionLoading}
+                            onView={(index) => setViewingVersion((prev) => ({ ...prev, [n]: index }))}
+                            onKeep={(index) => keepVersion(n, index)}
+                            onRegenerate={() => handleRegenerate(n)}
+                          />
+                        }
+                      />
+                      <FollowUpThread
+                        parentQuestionNumber={n}
+                        followUps={followUps.filter((f) => f.parentQuestionNumber === n)}
+                        onAsk={(question) => askFollowUp({ url: ragSettings.wsUrl, parentQuestionNumber: n, question })}
+                        disabled={sessionLoading}
+                      />
+                    </div>
+                  );
+                })}
+
+                {/* Typing or retry indicators for unanswered questions */}
+                {Object.entries(pending).map(([key, status]) => (
+                  <div key={`pending-${key}`} className="space-y-2">
                     <MessageBubble
                       side="right"
-                      label={`Question ${msg.question_number}`}
-                      content={<span>{msg.question}</span>}
-                      timestamp={msg.timestamp}
+                      label={`Question ${key}`}
+                      content={<span>{sessionQuestions[Number(key) - 1] ?? "Sending…"}</span>}
                     />
                     <MessageBubble
                       side="left"
                       label="IFRS Advisor"
-                      content={<span>{msg.answer}</span>}
-                      timestamp={msg.timestamp}
+                      content={
+                        <PendingAnswer
+                          status={status}
+                          attempt={reconnectAttempt}
+                          draft={drafts[Number(key)]}
+                          stages={stages[Number(key)]}
+                          timeoutMs={questionTimeoutMs}
+                        />
+                      }
+                      action={
+                        (status === "waiting" || status === "retrying") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2"
+                            aria-label={`Cancel question ${key}`}
+                            onClick={() => cancelQuestion(Number(key))}
+                          >
+                            <X /> Cancel
+                          </Button>
+                        )
+                      }
                     />
                   </div>
                 ))}
 
-                {/* Typing indicators for unanswered questions */}
-                {Object.entries(typing)
-                  .filter(([, v]) => v)
-                  .map(([key]) => (
-                    <div key={`typing-${key}`} className="space-y-2">
-                      <MessageBubble
-                        side="right"
-                        label={`Question ${key}`}
-                        content={<span>Sending…</span>}
-                      />
-                      <MessageBubble side="left" label="IFRS Advisor" content={<TypingDots />} />
-                    </div>
-                  ))}
+                {sessionLoading && serverIdleMs !== null && (
+                  <p role="status" className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Activity className="h-4 w-4 animate-pulse" />
+                    Server still working — no update for {formatDuration(serverIdleMs)}.
+                  </p>
+                )}
 
                 {!sessionLoading && sortedAnswers.length === 0 && !summary && (
                   <p className="text-sm text-muted-foreground">Your answers will appear here after submission.</p>
                 )}
               </div>
+              {diagnostics.state !== "idle" && (
+                <ConnectionDiagnostics diagnostics={diagnostics} context={{ Session: sessionId, Model: sessionModel }} />
+              )}
             </CardContent>
           </Card>
         </section>
@@ -372,6 +515,16 @@ const IFRSAdvisor: React.FC = () => {
             <Card>
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle id="summary">Session Summary</CardTitle>
+                {storedSession && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={sessionPath(storedSession.id)}>
+                        <Link2 className="mr-1" /> Open shareable view
+                      </Link>
+                    </Button>
+                    <ExportMemoMenu session={storedSession} />
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
                 <Collapsible defaultOpen>
@@ -381,9 +534,22 @@ const IFRSAdvisor: React.FC = () => {
                     </Button>
                   </CollapsibleTrigger>
                   <CollapsibleContent>
-                    <div className="prose max-w-none prose-sm md:prose-base">
-                      <ReactMarkdown>{summary.summary}</ReactMarkdown>
-                    </div>
+                    {summaryOutdated && (
+                      <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border border-dashed p-3 text-sm">
+                        <AlertTriangle className="h-4 w-4 text-destructive" />
+                        A different answer version was kept after this summary was written.
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={summaryRefreshing}
+                          onClick={() => refreshSummary(ragSettings.wsUrl)}
+                        >
+                          {summaryRefreshing ? <Loader2 className="mr-1 animate-spin" /> : <RefreshCw className="mr-1" />}
+                          Update summary
+                        </Button>
+                      </div>
+                    )}
+                    <Markdown>{summary.summary}</Markdown>
                     {summary.timestamp && (
                       <div className="mt-3 text-sm text-muted-foreground">
                         {new Date(summary.timestamp).toLocaleString()}
@@ -0,0 +1,32 @@
+import React from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+
+// Wide tables and journal-entry code blocks scroll inside the bubble instead of stretching it
+const components: Components = {
+  table: ({ node: _node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+  pre: ({ node: _node, className, ...props }) => (
+    <pre className={cn("overflow-x-auto rounded-md bg-background/70 p-3 text-foreground", className)} {...props} />
+  ),
+};
+
+/**
+ * Renders RAG output (answers and summaries) as GitHub-flavoured Markdown.
+ * Inline HTML is parsed and then sanitised, so only safe elements reach the DOM.
+ */
+const Markdown: React.FC<{ children: string; className?: string }> = ({ children, className }) => (
+  <div className={cn("prose prose-sm md:prose-base max-w-none break-words whitespace-normal dark:prose-invert", className)}>
+    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw, rehypeSanitize]} components={components}>
+      {children}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,162 @@
+import React, { useState } from "react";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { ClipboardPaste, Copy, GripVertical, Plus, Trash2 } from "lucide-react";
+import { splitQuestionList, type AdviceFormValues } from "@/lib/advice-form";
+
+/**
+ * Editable list of questions inside the advice form. Rows are keyed by the field
+ * array's own ids, so reordering or removing a row never remounts the one being typed in.
+ */
+const QuestionListField: React.FC = () => {
+  const { control, getValues } = useFormContext<AdviceFormValues>();
+  const { fields, append, insert, move, remove, replace } = useFieldArray({ control, name: "questions" });
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasteText, setPasteText] = useState("");
+
+  const pasted = splitQuestionList(pasteText);
+
+  const addPasted = () => {
+    if (pasted.length === 0) return;
+    const current = getValues("questions");
+    const rows = pasted.map((text) => ({ text }));
+    // Pasting into an untouched form replaces the empty placeholder row.
+    if (current.every((q) => !q.text.trim())) replace(rows);
+    else append(rows);
+    setPasteText("");
+    setPasteOpen(false);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = (to: number) => {
+    if (dragIndex !== null && dragIndex !== to) move(dragIndex, to);
+    endDrag();
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent, idx: number) => {
+    if (e.key === "ArrowUp" && idx > 0) {
+      e.preventDefault();
+      move(idx, idx - 1);
+    } else if (e.key === "ArrowDown" && idx < fields.length - 1) {
+      e.preventDefault();
+      move(idx, idx + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.map((item, idx) => (
+        <FormField
+          key={item.id}
+          control={control}
+          name={`questions.${idx}.text`}
+          render={({ field }) => (
+            <FormItem
+              className={`space-y-1 rounded-md transition-opacity ${dragIndex === idx ? "opacity-50" : ""} ${
+                overIndex === idx && dragIndex !== idx ? "ring-2 ring-ring ring-offset-2" : ""
+              }`}
+              data-question-row=""
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                setOverIndex(idx);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(idx);
+              }}
+            >
+              <div className="flex items-start gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0 cursor-grab active:cursor-grabbing"
+                  aria-label={`Move question ${idx + 1} (drag, or use the arrow keys)`}
+                  draggable
+                  onDragStart={(e) => {
+                    setDragIndex(idx);
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", String(idx));
+                    const row = e.currentTarget.closest("[data-question-row]");
+                    if (row) e.dataTransfer.setDragImage(row, 16, 16);
+                  }}
+                  onDragEnd={endDrag}
+                  onKeyDown={(e) => handleHandleKeyDown(e, idx)}
+                >
+                  <GripVertical />
+                </Button>
+                <FormControl>
+                  <Input {...field} aria-label={`Question ${idx + 1}`} placeholder={`Question ${idx + 1}`} />
+                </FormControl>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label={`Duplicate question ${idx + 1}`}
+                  onClick={() => insert(idx + 1, { text: getValues(`questions.${idx}.text`) })}
+                  className="shrink-0"
+                >
+                  <Copy />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label={`Remove question ${idx + 1}`}
+                  onClick={() => remove(idx)}
+                  disabled={fields.length === 1}
+                  className="shrink-0"
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+
+      {pasteOpen && (
+        <div className="space-y-2 rounded-md border border-dashed p-3">
+          <Textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            rows={5}
+            autoFocus
+            aria-label="Questions to paste"
+            placeholder={"1. How should the lease term be determined?\n2. Which discount rate applies?"}
+          />
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={addPasted} disabled={pasted.length === 0}>
+              Add {pasted.length || ""} question{pasted.length === 1 ? "" : "s"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setPasteOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="secondary" onClick={() => append({ text: "" })}>
+          <Plus className="mr-1" /> Add Another Question
+        </Button>
+        {!pasteOpen && (
+          <Button variant="ghost" onClick={() => setPasteOpen(true)}>
+            <ClipboardPaste className="mr-1" /> Paste many
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionListField;
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { CheckCircle2, Loader2, Settings, XCircle } from "lucide-react";
+import {
+  checkEndpointHealth,
+  clearRagSettings,
+  deriveHttpUrl,
+  getDefaultRagSettings,
+  getRagSettings,
+  MOCK_WS_URL,
+  saveRagSettings,
+  validateHttpUrl,
+  validateQuestionTimeout,
+  validateWsUrl,
+  type EndpointHealth,
+  type RagSettings,
+  type RagTransportMode,
+} from "@/lib/rag-config";
+
+export const EndpointHealthStatus = ({ health }: { health: EndpointHealth }) => {
+  switch (health.status) {
+    case "checking":
+      return (
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Checking endpoint…
+        </span>
+      );
+    case "reachable":
+      return (
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-green-600" /> Endpoint reachable
+          {health.transport === "http" ? " via HTTP streaming" : ""} ({health.latencyMs} ms)
+        </span>
+      );
+    case "unreachable":
+      return (
+        <span className="flex items-center gap-1 text-sm text-destructive">
+          <XCircle className="h-4 w-4" /> Endpoint unreachable: {health.reason}
+        </span>
+      );
+    default:
+      return null;
+  }
+};
+
+interface RagSettingsDialogProps {
+  onSaved: (settings: RagSettings) => void;
+}
+
+const RagSettingsDialog: React.FC<RagSettingsDialogProps> = ({ onSaved }) => {
+  const [open, setOpen] = useState(false);
+  const [wsUrl, setWsUrl] = useState("");
+  const [httpUrl, setHttpUrl] = useState("");
+  const [transport, setTransport] = useState<RagTransportMode>("auto");
+  const [questionTimeout, setQuestionTimeout] = useState("");
+  const [timeoutError, setTimeoutError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [httpError, setHttpError] = useState<string | null>(null);
+  const [health, setHealth] = useState<EndpointHealth>({ status: "unknown" });
+
+  useEffect(() => {
+    if (!open) return;
+    const settings = getRagSettings();
+    setWsUrl(settings.wsUrl);
+    setHttpUrl(settings.httpUrl);
+    setTransport(settings.transport);
+    setQuestionTimeout(String(settings.questionTimeoutSeconds));
+    setError(null);
+    setHttpError(null);
+    setTimeoutError(null);
+    setHealth({ status: "unknown" });
+  }, [open]);
+
+  const handleWsUrlChange = (value: string) => {
+    // Keep the HTTP endpoint paired with the WebSocket one until it is edited by hand
+    if (httpUrl === deriveHttpUrl(wsUrl)) setHttpUrl(deriveHttpUrl(value));
+    setWsUrl(value);
+  };
+
+  const handleTest = async () => {
+    const invalid = transport === "http" ? null : validateWsUrl(wsUrl);
+    const invalidHttp = transport === "websocket" ? null : validateHttpUrl(httpUrl);
+    setError(invalid);
+    setHttpError(invalidHttp);
+    if (invalid || invalidHttp) return;
+    setHealth({ status: "checking" });
+    setHealth(await checkEndpointHealth({ wsUrl: wsUrl.trim(), httpUrl: httpUrl.trim(), transport }));
+  };
+
+  const handleSave = () => {
+    const invalid = validateWsUrl(wsUrl);
+    const invalidHttp = validateHttpUrl(httpUrl);
+    const invalidTimeout = validateQuestionTimeout(questionTimeout);
+    setError(invalid);
+    setHttpError(invalidHttp);
+    setTimeoutError(invalidTimeout);
+    if (invalid || invalidHttp || invalidTimeout) return;
+    const explicitHttpUrl = httpUrl.trim() === deriveHttpUrl(wsUrl) ? undefined : httpUrl.trim();
+    saveRagSettings({
+      wsUrl: wsUrl.trim(),
+      httpUrl: explicitHttpUrl,
+      transport,
+      questionTimeoutSeconds: Number(questionTimeout),
+    });
+    onSaved(getRagSettings());
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    clearRagSettings();
+    onSaved(getDefaultRagSettings());
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Connection settings">
+          <Settings />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Connection settings</DialogTitle>
+          <DialogDescription>
+            Overrides are saved in this browser only. The build default is{" "}
+            <code className="break-all">{getDefaultRagSettings().wsUrl}</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="rag-ws-url">RAG WebSocket endpoint</Label>
+          <Input
+            id="rag-ws-url"
+            value={wsUrl}
+            onChange={(e) => handleWsUrlChange(e.target.value)}
+            placeholder="wss://rag.example.com/ws/rag/"
+          />
+          {import.meta.env.DEV && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleWsUrlChange(MOCK_WS_URL)}>
+              Use local mock server ({MOCK_WS_URL})
+            </Button>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <EndpointHealthStatus health={health} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rag-transport">Transport</Label>
+          <Select value={transport} onValueChange={(value) => setTransport(value as RagTransportMode)}>
+            <SelectTrigger id="rag-transport">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Automatic (WebSocket, HTTP streaming if blocked)</SelectItem>
+              <SelectItem value="websocket">WebSocket only</SelectItem>
+              <SelectItem value="http">HTTP streaming only</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {transport !== "websocket" && (
+          <div className="space-y-2">
+            <Label htmlFor="rag-http-url">HTTP streaming endpoint</Label>
+            <Input
+              id="rag-http-url"
+              value={httpUrl}
+              onChange={(e) => setHttpUrl(e.target.value)}
+              placeholder="https://rag.example.com/ws/rag/"
+            />
+            {httpError && <p className="text-sm text-destructive">{httpError}</p>}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="rag-question-timeout">Per-question timeout (seconds)</Label>
+          <Input
+            id="rag-question-timeout"
+            type="number"
+            min={0}
+            step={10}
+            value={questionTimeout}
+            onChange={(e) => setQuestionTimeout(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            A question with no answer, streamed text or progress update for this long is marked timed out. 0 waits indefinitely.
+          </p>
+          {timeoutError && <p className="text-sm text-destructive">{timeoutError}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={handleReset}>
+            Reset to default
+          </Button>
+          <Button variant="outline" onClick={handleTest} disabled={health.status === "checking"}>
+            Test connection
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RagSettingsDialog;
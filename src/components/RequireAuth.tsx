@@ -0,0 +1,16 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+
+/** Sends visitors to the login page when sign-in is enabled and nobody is signed in (or was just signed out). */
+const RequireAuth: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { credentials, required } = useAuth();
+  const location = useLocation();
+
+  if (required && !credentials) {
+    return <Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}${location.hash}` }} />;
+  }
+  return <>{children}</>;
+};
+
+export default RequireAuth;
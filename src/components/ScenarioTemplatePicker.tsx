@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BookmarkPlus, FileText, LayoutTemplate, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  BUILT_IN_TEMPLATES,
+  compileTemplate,
+  deleteCustomTemplate,
+  loadCustomTemplates,
+  missingRequiredFields,
+  saveCustomTemplate,
+  type ScenarioTemplate,
+  type TemplateField,
+  type TemplateValues,
+} from "@/lib/scenario-templates";
+
+const FieldInput = ({
+  field,
+  value,
+  onChange,
+}: {
+  field: TemplateField;
+  value: string;
+  onChange: (value: string) => void;
+}) => {
+  const id = `template-field-${field.id}`;
+  const label = (
+    <Label htmlFor={id}>
+      {field.label}
+      {field.required && <span className="text-destructive"> *</span>}
+    </Label>
+  );
+  if (field.type === "textarea") {
+    return (
+      <div className="space-y-1 sm:col-span-2">
+        {label}
+        <Textarea id={id} rows={2} value={value} placeholder={field.placeholder} onChange={(e) => onChange(e.target.value)} />
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-1">
+      {label}
+      <Input
+        id={id}
+        type={field.type === "date" ? "date" : field.type === "number" || field.type === "percent" ? "number" : "text"}
+        inputMode={field.type === "currency" ? "decimal" : undefined}
+        value={value}
+        placeholder={field.placeholder}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+};
+
+interface ScenarioTemplatePickerProps {
+  background: string;
+  onChange: (background: string) => void;
+}
+
+/**
+ * Template palette for the Background field (Ctrl/⌘ K). Filling a template appends
+ * its compiled text to the background, or replaces it when the field is empty.
+ */
+const ScenarioTemplatePicker: React.FC<ScenarioTemplatePickerProps> = ({ background, onChange }) => {
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [customTemplates, setCustomTemplates] = useState<ScenarioTemplate[]>(() => loadCustomTemplates());
+  const [active, setActive] = useState<ScenarioTemplate | null>(null);
+  const [values, setValues] = useState<TemplateValues>({});
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [saveDraft, setSaveDraft] = useState({ name: "", standard: "", body: "" });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const pick = (template: ScenarioTemplate) => {
+    setPaletteOpen(false);
+    setValues({});
+    setActive(template);
+  };
+
+  const missing = active ? missingRequiredFields(active, values) : [];
+  const preview = active ? compileTemplate(active, values) : "";
+
+  const insert = () => {
+    if (!active || missing.length > 0) return;
+    onChange(background.trim() ? `${background.trimEnd()}\n\n${preview}` : preview);
+    setActive(null);
+  };
+
+  const openSaveDialog = () => {
+    setPaletteOpen(false);
+    setSaveDraft({ name: "", standard: "", body: background });
+    setSaveOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!saveDraft.name.trim() || !saveDraft.body.trim()) return;
+    const template = saveCustomTemplate(saveDraft);
+    setCustomTemplates(loadCustomTemplates());
+    setSaveOpen(false);
+    toast({ title: "Template saved", description: `"${template.name}" is now in your templates.` });
+  };
+
+  const handleDelete = (template: ScenarioTemplate) => {
+    deleteCustomTemplate(template.id);
+    setCustomTemplates(loadCustomTemplates());
+  };
+
+  const renderItem = (template: ScenarioTemplate) => (
+    <CommandItem key={template.id} value={`${template.standard} ${template.name} ${template.id}`} onSelect={() => pick(template)}>
+      <FileText className="mr-2" />
+      <div className="min-w-0 flex-1">
+        <div className="truncate">
+          <span className="font-medium">{template.standard}</span> · {template.name}
+        </div>
+        <div className="truncate text-xs text-muted-foreground">{template.description}</div>
+      </div>
+      {!template.builtIn && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0"
+          aria-label={`Delete template ${template.name}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleDelete(template);
+          }}
+        >
+          <Trash2 />
+        </Button>
+      )}
+    </CommandItem>
+  );
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setPaletteOpen(true)}>
+        <LayoutTemplate className="mr-1" /> Templates
+        <kbd className="ml-2 hidden rounded border bg-muted px-1.5 font-mono text-[10px] text-muted-foreground sm:inline">
+          Ctrl K
+        </kbd>
+      </Button>
+
+      <CommandDialog open={paletteOpen} onOpenChange={setPaletteOpen}>
+        <CommandInput placeholder="Search scenario templates…" />
+        <CommandList>
+          <CommandEmpty>No templates found.</CommandEmpty>
+          <CommandGroup heading="Built-in">{BUILT_IN_TEMPLATES.map(renderItem)}</CommandGroup>
+          {customTemplates.length > 0 && (
+            <CommandGroup heading="My templates">{customTemplates.map(renderItem)}</CommandGroup>
+          )}
+          <CommandSeparator />
+          <CommandGroup heading="Actions">
+            <CommandItem value="save current background as template" onSelect={openSaveDialog}>
+              <BookmarkPlus className="mr-2" /> Save current background as template…
+              <CommandShortcut>local</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+
+      <Dialog open={!!active} onOpenChange={(open) => !open && setActive(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          {active && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {active.standard} · {active.name}
+                </DialogTitle>
+                <DialogDescription>
+                  {active.description} Lines whose fields are all left empty are omitted.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                {active.fields.map((field) => (
+                  <FieldInput
+                    key={field.id}
+                    field={field}
+                    value={values[field.id] ?? ""}
+                    onChange={(value) => setValues((prev) => ({ ...prev, [field.id]: value }))}
+                  />
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label>Preview</Label>
+                <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 font-sans text-sm">
+                  {preview || "Fill in the fields to build the background."}
+                </pre>
+              </div>
+
+              <DialogFooter className="items-center gap-2 sm:gap-0">
+                {missing.length > 0 && (
+                  <p className="mr-auto text-sm text-muted-foreground">Required: {missing.join(", ")}</p>
+                )}
+                <Button variant="ghost" onClick={() => setActive(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={insert} disabled={missing.length > 0}>
+                  {background.trim() ? "Append to background" : "Use as background"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Save as template</DialogTitle>
+            <DialogDescription>
+              Saved in this browser only. Write <code>{"{{Lease term}}"}</code> wherever a value should be asked for when
+              the template is used.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={saveDraft.name}
+                placeholder="Property lease, CPI-linked"
+                onChange={(e) => setSaveDraft((d) => ({ ...d, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-standard">Standard</Label>
+              <Input
+                id="template-standard"
+                value={saveDraft.standard}
+                placeholder="IFRS 16"
+                onChange={(e) => setSaveDraft((d) => ({ ...d, standard: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="template-body">Text</Label>
+              <Textarea
+                id="template-body"
+                rows={8}
+                value={saveDraft.body}
+                onChange={(e) => setSaveDraft((d) => ({ ...d, body: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={!saveDraft.name.trim() || !saveDraft.body.trim()}>
+              Save template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ScenarioTemplatePicker;
@@ -0,0 +1,61 @@
+import React from "react";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import SessionHistorySidebar from "@/components/SessionHistorySidebar";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import { deleteSession, listSessions, saveSession, type StoredSession } from "@/lib/session-store";
+
+const SESSION: StoredSession = {
+  id: "session-1",
+  createdAt: "2026-01-05T09:00:00.000Z",
+  completedAt: "2026-01-05T09:02:00.000Z",
+  background: "Company A leases an office building for 10 years.",
+  questions: ["What is the lease term?"],
+  answers: [],
+  summary: null,
+  model: "gpt-4o",
+};
+
+const renderSidebar = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <SidebarProvider>
+        <SessionHistorySidebar activeSessionId={null} onOpen={vi.fn()} />
+      </SidebarProvider>
+    </QueryClientProvider>,
+  );
+};
+
+describe("SessionHistorySidebar", () => {
+  beforeEach(async () => {
+    await Promise.all((await listSessions()).map((session) => deleteSession(session.id)));
+    await saveSession(SESSION);
+  });
+
+  it("deletes a session once the deletion is confirmed", async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    await user.click(await screen.findByRole("button", { name: "Delete session" }));
+    await user.click(await screen.findByRole("button", { name: "Delete" }));
+
+    await waitFor(() => expect(screen.queryByText(SESSION.background)).not.toBeInTheDocument());
+    await expect(listSessions()).resolves.toEqual([]);
+  });
+
+  it("keeps the session when the deletion is cancelled", async () => {
+    const user = userEvent.setup();
+    renderSidebar();
+
+    await user.click(await screen.findByRole("button", { name: "Delete session" }));
+    expect(screen.getByRole("alertdialog", { name: "Delete this session?" })).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Cancel" }));
+
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+    expect(screen.getByText(SESSION.background)).toBeInTheDocument();
+    await expect(listSessions()).resolves.toEqual([SESSION]);
+  });
+});
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from "react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Columns2, Trash2 } from "lucide-react";
+import SessionView from "@/components/SessionView";
+import { toast } from "@/hooks/use-toast";
+import { useDeleteSession, useSessions } from "@/hooks/use-sessions";
+import { filterSessions, type StoredSession } from "@/lib/session-store";
+
+const MAX_COMPARE = 2;
+
+interface SessionHistorySidebarProps {
+  activeSessionId: string | null;
+  onOpen: (session: StoredSession) => void;
+}
+
+const SessionHistorySidebar: React.FC<SessionHistorySidebarProps> = ({ activeSessionId, onOpen }) => {
+  const { data: sessions = [], isLoading } = useSessions();
+  const deleteMutation = useDeleteSession();
+  const [query, setQuery] = useState("");
+  const [date, setDate] = useState("");
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  /** Session whose delete is awaiting confirmation. */
+  const [pendingDelete, setPendingDelete] = useState<StoredSession | null>(null);
+
+  const visible = useMemo(() => filterSessions(sessions, query, date || undefined), [sessions, query, date]);
+  const compared = compareIds.map((id) => sessions.find((s) => s.id === id)).filter(Boolean);
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds((ids) => (checked ? [...ids, id].slice(-MAX_COMPARE) : ids.filter((x) => x !== id)));
+  };
+
+  const handleDelete = (session: StoredSession) => {
+    setPendingDelete(null);
+    deleteMutation.mutate(session.id, {
+      onSuccess: () => setCompareIds((ids) => ids.filter((x) => x !== session.id)),
+      onError: () => toast({ title: "Delete failed", description: "The session could not be removed." }),
+    });
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <SidebarInput
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search background…"
+          aria-label="Search sessions by background"
+        />
+        <SidebarInput
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label="Filter sessions by date"
+        />
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>History</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading &&
+                Array.from({ length: 3 }).map((_, i) => (
+                  <SidebarMenuItem key={i}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              {!isLoading && visible.length === 0 && (
+                <p className="px-2 text-sm text-muted-foreground">
+                  {sessions.length === 0 ? "Completed sessions will be listed here." : "No sessions match."}
+                </p>
+              )}
+              {visible.map((session) => (
+                <SidebarMenuItem key={session.id} className="flex items-start gap-2">
+                  <Checkbox
+                    className="mt-2.5 ml-1"
+                    checked={compareIds.includes(session.id)}
+                    onCheckedChange={(checked) => toggleCompare(session.id, checked === true)}
+                    aria-label="Select for comparison"
+                  />
+                  <SidebarMenuButton
+                    size="lg"
+                    isActive={session.id === activeSessionId}
+                    onClick={() => onOpen(session)}
+                    className="flex-col items-start gap-0 pr-7"
+                  >
+                    <span className="w-full truncate">{session.background}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(session.createdAt).toLocaleString()} • {session.answers.length} answers
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    aria-label="Delete session"
+                    onClick={() => setPendingDelete(session)}
+                  >
+                    <Trash2 />
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        <Button
+          variant="outline"
+          disabled={compared.length !== MAX_COMPARE}
+          onClick={() => setCompareOpen(true)}
+        >
+          <Columns2 className="mr-2" /> Compare selected ({compared.length}/{MAX_COMPARE})
+        </Button>
+      </SidebarFooter>
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Compare sessions</DialogTitle>
+          </DialogHeader>
+          <div className="grid max-h-[75vh] gap-6 overflow-y-auto md:grid-cols-2">
+            {compared.map((session) => (
+              <SessionView key={session.id} session={session} />
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It is removed from your history on this device. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={() => pendingDelete && handleDelete(pendingDelete)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default SessionHistorySidebar;
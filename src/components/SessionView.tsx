@@ -0,0 +1,76 @@
+import React from "react";
+import CitationChips from "@/components/CitationChips";
+import FollowUpThread from "@/components/FollowUpThread";
+import Markdown from "@/components/Markdown";
+import { answeredFollowUp } from "@/hooks/use-rag-session";
+import { formatStageTimings } from "@/lib/progress-stages";
+import type { StoredSession } from "@/lib/session-store";
+
+/** Read-only rendering of a stored session: background, every question/answer pair and the summary. */
+const SessionView: React.FC<{ session: StoredSession }> = ({ session }) => {
+  return (
+    <article className="space-y-6">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Started</dt>
+        <dd>{new Date(session.createdAt).toLocaleString()}</dd>
+        <dt className="text-muted-foreground">Completed</dt>
+        <dd>{new Date(session.completedAt).toLocaleString()}</dd>
+        <dt className="text-muted-foreground">Model</dt>
+        <dd>{session.model}</dd>
+        {session.attachments && session.attachments.length > 0 && (
+          <>
+            <dt className="text-muted-foreground">Attachments</dt>
+            <dd>{session.attachments.map((a) => a.name).join(", ")}</dd>
+          </>
+        )}
+      </dl>
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Background</h3>
+        <p className="whitespace-pre-wrap break-words text-sm">{session.background}</p>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="font-semibold">Questions &amp; answers</h3>
+        {session.answers.length === 0 && <p className="text-sm text-muted-foreground">No answers were received.</p>}
+        {session.answers.map((a) => (
+          <div key={a.question_number} className="space-y-1 rounded-md border p-3">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Question {a.question_number}</span>
+              {a.timestamp && <time dateTime={a.timestamp}>{new Date(a.timestamp).toLocaleString()}</time>}
+            </div>
+            <p className="font-medium">{a.question}</p>
+            {session.stageTimings?.[a.question_number] && (
+              <p className="text-xs text-muted-foreground">{formatStageTimings(session.stageTimings[a.question_number])}</p>
+            )}
+            <Markdown className="md:prose-sm">{a.answer}</Markdown>
+            {a.sources && <CitationChips sources={a.sources} />}
+            <FollowUpThread
+              parentQuestionNumber={a.question_number}
+              followUps={(session.followUps ?? [])
+                .filter((f) => f.parent_question_number === a.question_number)
+                .map(answeredFollowUp)}
+            />
+          </div>
+        ))}
+      </section>
+
+      {session.summary && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Summary</h3>
+          {session.summaryOutdated && (
+            <p className="text-xs text-muted-foreground">
+              Written before a different answer version was kept; it may not reflect every kept answer.
+            </p>
+          )}
+          <Markdown className="md:prose-sm">{session.summary.summary}</Markdown>
+          {session.summary.timestamp && (
+            <div className="text-xs text-muted-foreground">{new Date(session.summary.timestamp).toLocaleString()}</div>
+          )}
+        </section>
+      )}
+    </article>
+  );
+};
+
+export default SessionView;
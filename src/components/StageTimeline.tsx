@@ -0,0 +1,29 @@
+import React from "react";
+import { Check, Loader2 } from "lucide-react";
+import { stageDurations, stageLabel, type StageEntry } from "@/lib/progress-stages";
+
+/** Compact timeline of the server's stages for a pending question: finished ones with their duration, then the current one. */
+const StageTimeline: React.FC<{ stages: StageEntry[] }> = ({ stages }) => {
+  const current = stages.at(-1);
+  const finished = stageDurations(stages.slice(0, -1), current?.startedAt ?? Date.now());
+
+  return (
+    <ol aria-label="Answer progress" className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      {finished.map(({ stage, durationMs }, i) => (
+        <li key={`${stage}-${i}`} className="flex items-center gap-1">
+          <Check className="h-3 w-3 text-green-600" />
+          {stageLabel(stage)} <span className="tabular-nums">{(durationMs / 1000).toFixed(1)}s</span>
+        </li>
+      ))}
+      {current && (
+        <li className="flex items-center gap-1 font-medium text-foreground" aria-current="step">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {stageLabel(current.stage)}
+          {current.percent !== undefined && <span className="tabular-nums">{Math.round(current.percent)}%</span>}
+        </li>
+      )}
+    </ol>
+  );
+};
+
+export default StageTimeline;
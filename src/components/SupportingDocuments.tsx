@@ -0,0 +1,186 @@
+import React, { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, FileUp, Loader2, Paperclip, Trash2 } from "lucide-react";
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  attachmentLimitError,
+  AttachmentError,
+  createAttachmentId,
+  extractAttachment,
+  MAX_ATTACHMENT_CHARS,
+  MAX_ATTACHMENT_FILE_BYTES,
+  MAX_ATTACHMENTS,
+  MAX_TOTAL_ATTACHMENT_CHARS,
+  totalAttachmentChars,
+  type ExtractedAttachment,
+} from "@/lib/attachments";
+import { formatBytes } from "@/lib/utils";
+
+interface SupportingDocumentsProps {
+  attachments: ExtractedAttachment[];
+  /** Receives an updater, so uploads that finish after a removal or another upload do not undo it. */
+  onChange: React.Dispatch<React.SetStateAction<ExtractedAttachment[]>>;
+  disabled?: boolean;
+}
+
+/** Upload area for contracts, trial balances and the like; text is extracted in the browser. */
+const SupportingDocuments: React.FC<SupportingDocumentsProps> = ({ attachments, onChange, disabled }) => {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [extracting, setExtracting] = useState<{ id: string; name: string }[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ExtractedAttachment | null>(null);
+  const [dragOver, setDragOver] = useState(false);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const room = MAX_ATTACHMENTS - attachments.length - extracting.length;
+    const accepted = files.slice(0, Math.max(room, 0));
+    const failures = files.length > accepted.length ? [`Attach at most ${MAX_ATTACHMENTS} documents.`] : [];
+    const pending = accepted.map((file) => ({ id: createAttachmentId(), name: file.name }));
+    setExtracting((prev) => [...prev, ...pending]);
+
+    const results = await Promise.all(
+      accepted.map(async (file, i) => {
+        try {
+          return await extractAttachment(file);
+        } catch (err) {
+          failures.push(err instanceof AttachmentError ? err.message : `${file.name}: could not be read.`);
+          return null;
+        } finally {
+          setExtracting((prev) => prev.filter((other) => other.id !== pending[i].id));
+        }
+      }),
+    );
+    setErrors(failures);
+    const added = results.filter((r): r is ExtractedAttachment => r !== null);
+    if (added.length > 0) onChange((prev) => [...prev, ...added]);
+  };
+
+  const limitError = attachmentLimitError(attachments);
+  const totalChars = totalAttachmentChars(attachments);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle id="attachments">Supporting documents</CardTitle>
+          <CardDescription>
+            PDF, DOCX, XLSX or CSV up to {formatBytes(MAX_ATTACHMENT_FILE_BYTES)}. Text is extracted in your browser; only
+            the text is sent.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || attachments.length >= MAX_ATTACHMENTS}
+          onClick={() => inputRef.current?.click()}
+        >
+          <FileUp className="mr-1" /> Upload
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+        />
+      </CardHeader>
+      <CardContent
+        className={`space-y-3 ${dragOver ? "bg-muted/50" : ""}`}
+        onDragOver={(e) => {
+          if (disabled || !e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setDragOver(true);
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          if (disabled) return;
+          e.preventDefault();
+          setDragOver(false);
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {attachments.length === 0 && extracting.length === 0 && (
+          <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+            Drop files here or use Upload.
+          </p>
+        )}
+
+        {attachments.map((a) => (
+          <div key={a.id} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+            <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="min-w-0 flex-1 truncate" title={a.name}>
+              {a.name}
+            </span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {formatBytes(a.size_bytes)} · {a.text.length.toLocaleString()} chars
+            </span>
+            {a.truncated && (
+              <Badge variant="secondary" title={`Only the first ${MAX_ATTACHMENT_CHARS.toLocaleString()} characters are sent.`}>
+                truncated
+              </Badge>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Preview ${a.name}`} onClick={() => setPreview(a)}>
+              <Eye />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label={`Remove ${a.name}`}
+              disabled={disabled}
+              onClick={() => onChange((prev) => prev.filter((other) => other.id !== a.id))}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+        ))}
+
+        {extracting.map(({ id, name }) => (
+          <div key={id} className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Extracting text from {name}…
+          </div>
+        ))}
+
+        {attachments.length > 0 && (
+          <p className={`text-xs ${limitError ? "text-destructive" : "text-muted-foreground"}`}>
+            {limitError ??
+              `${totalChars.toLocaleString()} / ${MAX_TOTAL_ATTACHMENT_CHARS.toLocaleString()} characters of attachment text`}
+          </p>
+        )}
+        {errors.map((message) => (
+          <p key={message} className="text-sm font-medium text-destructive">
+            {message}
+          </p>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-h-[90vh] sm:max-w-3xl">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="truncate">{preview.name}</DialogTitle>
+                <DialogDescription>
+                  Extracted text as it will be sent{preview.truncated ? " (cut off at the per-file limit)" : ""}.
+                </DialogDescription>
+              </DialogHeader>
+              <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                {preview.text}
+              </pre>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default SupportingDocuments;
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { getCredentials, isAuthRequired, subscribeToAuth } from "@/lib/auth";
+
+/** The signed-in credentials, re-rendering on sign-in, sign-out and token renewal (also from other tabs). */
+export function useAuth() {
+  const credentials = useSyncExternalStore(subscribeToAuth, getCredentials);
+  return { credentials, required: isAuthRequired() };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { requestModelList } from "@/lib/rag-client";
+import { getConfiguredModels, type ModelOption } from "@/lib/rag-config";
+
+export interface ModelList {
+  models: ModelOption[];
+  source: "server" | "config";
+}
+
+/** Models offered by the server at `wsUrl`, falling back to the configured list when it cannot be asked. */
+export function useModels(wsUrl: string) {
+  return useQuery({
+    queryKey: ["models", wsUrl],
+    queryFn: async (): Promise<ModelList> => {
+      try {
+        return { models: await requestModelList(wsUrl), source: "server" };
+      } catch (err) {
+        console.warn("[IFRS WS] list_models failed, using configured models", err);
+        return { models: getConfiguredModels(), source: "config" };
+      }
+    },
+    placeholderData: { models: getConfiguredModels(), source: "config" },
+    staleTime: Infinity,
+    retry: false,
+  });
+}
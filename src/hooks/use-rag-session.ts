@@ -0,0 +1,511 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { SESSIONS_QUERY_KEY } from "@/hooks/use-sessions";
+import { AUTH_FAILED_CLOSE_CODE, RagSessionClient, requestFollowUp, requestRegenerate, requestSummary } from "@/lib/rag-client";
+import type { AnswerMessage, AttachmentPayload, FollowUpAnswerMessage, SummaryMessage } from "@/lib/rag-protocol";
+import { applyProgress, stageDurations, type StageEntry, type StageTiming } from "@/lib/progress-stages";
+import { applyDiagnostic, emptyDiagnostics, type SessionDiagnostics } from "@/lib/rag-diagnostics";
+import { CONNECT_TIMEOUT_CLOSE_CODE } from "@/lib/rag-transport";
+import { createSessionId, saveSession, type StoredSession } from "@/lib/session-store";
+
+/** Where an unanswered question stands; answered questions are dropped from the map. */
+export type PendingStatus = "waiting" | "retrying" | "failed" | "cancelled" | "timed_out";
+
+/** Heartbeats with no answer for this long show the "server still working" notice. */
+export const STILL_WORKING_AFTER_MS = 20_000;
+
+const isActive = (status: PendingStatus) => status === "waiting" || status === "retrying";
+
+export interface FollowUpState {
+  id: string;
+  parentQuestionNumber: number;
+  question: string;
+  status: "pending" | "answered" | "failed";
+  answer?: FollowUpAnswerMessage;
+  error?: string;
+}
+
+export interface AskFollowUpInput {
+  url: string;
+  parentQuestionNumber: number;
+  question: string;
+}
+
+export const answeredFollowUp = (answer: FollowUpAnswerMessage): FollowUpState => ({
+  id: answer.follow_up_id,
+  parentQuestionNumber: answer.parent_question_number,
+  question: answer.question,
+  status: "answered",
+  answer,
+});
+
+export interface StartSessionInput {
+  url: string;
+  background: string;
+  questions: string[];
+  model: string;
+  attachments?: AttachmentPayload[];
+  /** No-progress limit per question; 0 or omitted waits forever. */
+  questionTimeoutMs?: number;
+}
+
+/** Owns the RagSessionClient for the current session and mirrors its events into React state. */
+export function useRagSession() {
+  const queryClient = useQueryClient();
+  const clientRef = useRef<RagSessionClient | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  /** The stored record of the session on screen, once it has completed (or was opened from history). */
+  const [storedSession, setStoredSession] = useState<StoredSession | null>(null);
+  const storedSessionRef = useRef<StoredSession | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(false);
+  const [background, setBackground] = useState("");
+  const [questions, setQuestions] = useState<string[]>([]);
+  const [model, setModel] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<number, AnswerMessage>>({});
+  /** Text streamed so far for questions whose final `answer` frame has not landed yet. */
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  /** Server stages reported so far for questions still being answered. */
+  const [stages, setStages] = useState<Record<number, StageEntry[]>>({});
+  const [pending, setPending] = useState<Record<number, PendingStatus>>({});
+  const [reconnectAttempt, setReconnectAttempt] = useState<number | null>(null);
+  /** How long the server has been answering heartbeats without producing an answer, once that passes `STILL_WORKING_AFTER_MS`. */
+  const [serverIdleMs, setServerIdleMs] = useState<number | null>(null);
+  /** The per-question timeout of the running session, for the timed-out notice. */
+  const [questionTimeoutMs, setQuestionTimeoutMs] = useState(0);
+  /** Connection log and timings of the current session's socket, for the badge and diagnostics panel. */
+  const [diagnostics, setDiagnostics] = useState<SessionDiagnostics>(() => emptyDiagnostics());
+  const [summary, setSummary] = useState<SummaryMessage | null>(null);
+  const [sentInOrder, setSentInOrder] = useState<boolean | null>(null);
+  const [followUps, setFollowUps] = useState<FollowUpState[]>([]);
+  /** Every version received per question, oldest first. `answers` holds the kept one. */
+  const [answerVersions, setAnswerVersionsState] = useState<Record<number, AnswerMessage[]>>({});
+  // Regenerations of different questions can finish in any order; each must build on the latest versions
+  const answerVersionsRef = useRef<Record<number, AnswerMessage[]>>({});
+  const setAnswerVersions = useCallback(
+    (update: (prev: Record<number, AnswerMessage[]>) => Record<number, AnswerMessage[]>) => {
+      answerVersionsRef.current = update(answerVersionsRef.current);
+      setAnswerVersionsState(answerVersionsRef.current);
+    },
+    [],
+  );
+  const [keptVersions, setKeptVersions] = useState<Record<number, number>>({});
+  const [regenerating, setRegenerating] = useState<Record<number, boolean>>({});
+  const [summaryOutdated, setSummaryOutdated] = useState(false);
+  const [summaryRefreshing, setSummaryRefreshing] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      clientRef.current?.close();
+    };
+  }, []);
+
+  const showSession = useCallback((id: string, record: StoredSession | null) => {
+    sessionIdRef.current = id;
+    storedSessionRef.current = record;
+    setSessionId(id);
+    setStoredSession(record);
+  }, []);
+
+  /** Saves the record to the history and makes it the stored session on screen. */
+  const persist = useCallback(
+    (record: StoredSession) => {
+      storedSessionRef.current = record;
+      setStoredSession(record);
+      saveSession(record)
+        .then(() => queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY }))
+        .catch((err) => {
+          console.error("[IFRS sessions] Failed to save session", err);
+          toast({ title: "Session not saved", description: "It could not be stored in this browser's history." });
+        });
+    },
+    [queryClient],
+  );
+
+  const start = useCallback(({ url, background, questions, model, attachments = [], questionTimeoutMs = 0 }: StartSessionInput) => {
+    clientRef.current?.close();
+
+    const id = createSessionId();
+    const createdAt = new Date().toISOString();
+    const received = new Map<number, AnswerMessage>();
+    const timelines = new Map<number, StageEntry[]>();
+    const stageTimings: Record<number, StageTiming[]> = {};
+
+    // Reset state for new session
+    showSession(id, null);
+    setBackground(background);
+    setQuestions(questions);
+    setModel(model);
+    setAnswers({});
+    setDrafts({});
+    setStages({});
+    setPending(Object.fromEntries(questions.map((_, i) => [i + 1, "waiting" as PendingStatus])));
+    setReconnectAttempt(null);
+    setServerIdleMs(null);
+    setQuestionTimeoutMs(questionTimeoutMs);
+    setSummary(null);
+    setSentInOrder(null);
+    setFollowUps([]);
+    setAnswerVersions(() => ({}));
+    setKeptVersions({});
+    setRegenerating({});
+    setSummaryOutdated(false);
+    setSessionLoading(true);
+
+    const client = new RagSessionClient({ url, questionTimeoutMs });
+    clientRef.current = client;
+    setDiagnostics(emptyDiagnostics(url));
+    client.on("diagnostic", (event) => setDiagnostics((prev) => applyDiagnostic(prev, event)));
+
+    client.on("answer", (msg) => {
+      if (typeof msg.sent_in_order === "boolean") setSentInOrder(msg.sent_in_order);
+      received.set(msg.question_number, msg);
+      const timeline = timelines.get(msg.question_number);
+      if (timeline) {
+        stageTimings[msg.question_number] = stageDurations(timeline, Date.now());
+        timelines.delete(msg.question_number);
+      }
+      setStages(({ [msg.question_number]: _, ...rest }) => rest);
+      setAnswers((prev) => ({ ...prev, [msg.question_number]: msg }));
+      setAnswerVersions((prev) => ({ ...prev, [msg.question_number]: [msg] }));
+      setPending(({ [msg.question_number]: _, ...rest }) => rest);
+      setDrafts(({ [msg.question_number]: _, ...rest }) => rest);
+      setServerIdleMs(null);
+    });
+
+    client.on("answer_delta", (msg) => {
+      setServerIdleMs(null);
+      setDrafts((prev) => ({ ...prev, [msg.question_number]: (prev[msg.question_number] ?? "") + msg.delta }));
+    });
+
+    const markPending = (numbers: number[], status: PendingStatus) => {
+      setPending((prev) => ({
+        ...prev,
+        ...Object.fromEntries(numbers.filter((n) => n in prev).map((n) => [n, status])),
+      }));
+    };
+
+    client.on("reconnecting", ({ attempt, pending: numbers }) => {
+      setReconnectAttempt(attempt);
+      markPending(numbers, "retrying");
+      // Resumed questions are answered from scratch, so partial text would be duplicated
+      setDrafts((prev) => Object.fromEntries(Object.entries(prev).filter(([n]) => !numbers.includes(Number(n)))));
+      numbers.forEach((n) => timelines.delete(n));
+      setStages((prev) => Object.fromEntries(Object.entries(prev).filter(([n]) => !numbers.includes(Number(n)))));
+    });
+
+    client.on("progress", (msg) => {
+      setServerIdleMs(null);
+      const timeline = applyProgress(timelines.get(msg.question_number) ?? [], msg, Date.now());
+      timelines.set(msg.question_number, timeline);
+      setStages((prev) => ({ ...prev, [msg.question_number]: timeline }));
+    });
+
+    client.on("heartbeat", ({ idleMs }) => {
+      setServerIdleMs(idleMs >= STILL_WORKING_AFTER_MS ? idleMs : null);
+    });
+
+    client.on("question_timeout", ({ questionNumber, sessionEnded }) => {
+      setPending((prev) => ({ ...prev, [questionNumber]: "timed_out" }));
+      setDrafts(({ [questionNumber]: _, ...rest }) => rest);
+      setStages(({ [questionNumber]: _, ...rest }) => rest);
+      if (sessionEnded) {
+        // Nothing was answered and nothing is left, so the client cancelled the session
+        clientRef.current = null;
+        setSessionLoading(false);
+        setReconnectAttempt(null);
+        setServerIdleMs(null);
+      }
+    });
+
+    client.on("resumed", ({ pending: numbers }) => {
+      setReconnectAttempt(null);
+      markPending(numbers, "waiting");
+    });
+
+    client.on("summary", (msg) => {
+      if (typeof msg.sent_in_order === "boolean") setSentInOrder(msg.sent_in_order);
+      setSummary(msg);
+      setSessionLoading(false);
+      setServerIdleMs(null);
+
+      persist({
+        id,
+        createdAt,
+        completedAt: new Date().toISOString(),
+        background,
+        questions,
+        answers: [...received.values()].sort((a, b) => a.question_number - b.question_number),
+        summary: msg,
+        model,
+        ...(attachments.length > 0 && {
+          attachments: attachments.map(({ name, size_bytes }) => ({ name, size_bytes })),
+        }),
+        ...(Object.keys(stageTimings).length > 0 && { stageTimings }),
+      });
+    });
+
+    client.on("error", (err) => {
+      switch (err.kind) {
+        case "invalid_message":
+          // Logged by the client; a single malformed frame should not end the session
+          return;
+        case "timeout":
+          setSessionLoading(false);
+          toast({ title: "Connection timeout", description: err.message });
+          return;
+        case "send":
+          setSessionLoading(false);
+          toast({ title: "Send failed", description: err.message });
+          return;
+        case "connection":
+          setSessionLoading(false);
+          toast({ title: "Connection error", description: err.message });
+          return;
+        case "auth":
+          setSessionLoading(false);
+          toast({ title: "Sign-in required", description: err.message });
+          return;
+      }
+    });
+
+    client.on("closed", (ev) => {
+      setSessionLoading(false);
+      setReconnectAttempt(null);
+      setServerIdleMs(null);
+      // Nothing else will arrive for this session
+      setPending((prev) =>
+        Object.fromEntries(Object.entries(prev).map(([n, status]) => [n, isActive(status) ? "failed" : status])),
+      );
+      // An auth failure or connect timeout was already reported by its own toast
+      if (ev.code !== 1000 && ev.code !== AUTH_FAILED_CLOSE_CODE && ev.code !== CONNECT_TIMEOUT_CLOSE_CODE) {
+        toast({
+          title: `Connection closed (${ev.code})`,
+          description: ev.reason || "The connection was closed unexpectedly. See console for diagnostics.",
+        });
+      }
+    });
+
+    client.start({
+      type: "process_questions",
+      session_id: id,
+      background,
+      questions,
+      model,
+      ...(attachments.length > 0 && { attachments }),
+    });
+  }, [persist, showSession, setAnswerVersions]);
+
+  /** Shows a stored session as if it had just completed; any running session is stopped. */
+  const load = useCallback((session: StoredSession) => {
+    clientRef.current?.close();
+    clientRef.current = null;
+    showSession(session.id, session);
+    setBackground(session.background);
+    setQuestions(session.questions);
+    setModel(session.model);
+    setAnswers(Object.fromEntries(session.answers.map((a) => [a.question_number, a])));
+    setDrafts({});
+    setStages({});
+    setPending({});
+    setReconnectAttempt(null);
+    setServerIdleMs(null);
+    setDiagnostics(emptyDiagnostics());
+    setSummary(session.summary);
+    setSentInOrder(null);
+    setFollowUps((session.followUps ?? []).map(answeredFollowUp));
+    setAnswerVersions(() =>
+      Object.fromEntries(session.answers.map((a) => [a.question_number, session.answerVersions?.[a.question_number] ?? [a]])),
+    );
+    setKeptVersions(session.keptVersions ?? {});
+    setRegenerating({});
+    setSummaryOutdated(session.summaryOutdated ?? false);
+    setSessionLoading(false);
+  }, [showSession, setAnswerVersions]);
+
+  /** Stops the running session; unanswered questions are marked cancelled and no summary is requested. */
+  const stop = useCallback(() => {
+    clientRef.current?.cancel();
+    clientRef.current = null;
+    setSessionLoading(false);
+    setReconnectAttempt(null);
+    setServerIdleMs(null);
+    setPending((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([n, status]) => [n, isActive(status) ? "cancelled" : status])),
+    );
+  }, []);
+
+  const cancelQuestion = useCallback(
+    (questionNumber: number) => {
+      const client = clientRef.current;
+      if (!client) return;
+      setPending((prev) => ({ ...prev, [questionNumber]: "cancelled" }));
+      setDrafts(({ [questionNumber]: _, ...rest }) => rest);
+      setStages(({ [questionNumber]: _, ...rest }) => rest);
+      if (client.cancelQuestion(questionNumber)) {
+        // Nothing completed, so the whole session was cancelled
+        clientRef.current = null;
+        setSessionLoading(false);
+        setReconnectAttempt(null);
+        setServerIdleMs(null);
+      }
+    },
+    [],
+  );
+
+  /**
+   * Asks a follow-up under an answered question on a connection of its own. The parent
+   * Q&A and earlier follow-ups in the same thread are sent as context.
+   */
+  const askFollowUp = async ({ url, parentQuestionNumber, question }: AskFollowUpInput) => {
+    const parent = answers[parentQuestionNumber];
+    if (!parent) return;
+    const askedInSession = sessionIdRef.current;
+    const id = createSessionId();
+    const thread = followUps.filter((f) => f.parentQuestionNumber === parentQuestionNumber && f.answer);
+
+    setFollowUps((prev) => [...prev, { id, parentQuestionNumber, question, status: "pending" }]);
+    const update = (patch: Partial<FollowUpState>) =>
+      setFollowUps((prev) => prev.map((f) => (f.id === id ? { ...f, ...patch } : f)));
+
+    try {
+      const answer = await requestFollowUp(url, {
+        type: "follow_up",
+        follow_up_id: id,
+        parent_question_number: parentQuestionNumber,
+        question,
+        background,
+        context: [
+          { question: parent.question, answer: parent.answer },
+          ...thread.map((f) => ({ question: f.question, answer: f.answer.answer })),
+        ],
+        model: parent.model ?? model,
+      });
+      // A different session was started or opened while this one was pending
+      if (sessionIdRef.current !== askedInSession) return;
+      update({ status: "answered", answer });
+      const current = storedSessionRef.current;
+      if (current) persist({ ...current, followUps: [...(current.followUps ?? []), answer] });
+    } catch (err) {
+      if (sessionIdRef.current !== askedInSession) return;
+      console.error("[IFRS WS] Follow-up failed", err);
+      update({ status: "failed", error: err instanceof Error ? err.message : "The follow-up could not be answered." });
+    }
+  };
+
+  /**
+   * Re-asks one question. The new answer is added as a version and its index returned;
+   * the kept answer does not change.
+   */
+  const regenerate = async ({ url, questionNumber }: { url: string; questionNumber: number }): Promise<number | null> => {
+    const current = answers[questionNumber];
+    if (!current || regenerating[questionNumber]) return null;
+    const askedInSession = sessionIdRef.current;
+    setRegenerating((prev) => ({ ...prev, [questionNumber]: true }));
+    try {
+      const answer = await requestRegenerate(url, {
+        type: "regenerate",
+        question_number: questionNumber,
+        question: current.question,
+        background,
+        model,
+      });
+      if (sessionIdRef.current !== askedInSession) return null;
+      setAnswerVersions((prev) => ({ ...prev, [questionNumber]: [...(prev[questionNumber] ?? [current]), answer] }));
+      const stored = storedSessionRef.current;
+      if (stored) persist({ ...stored, answerVersions: answerVersionsRef.current });
+      return answerVersionsRef.current[questionNumber].length - 1;
+    } catch (err) {
+      if (sessionIdRef.current !== askedInSession) return null;
+      console.error("[IFRS WS] Regenerate failed", err);
+      toast({ title: `Could not regenerate question ${questionNumber}`, description: err instanceof Error ? err.message : undefined });
+      return null;
+    } finally {
+      if (sessionIdRef.current === askedInSession) {
+        setRegenerating((prev) => ({ ...prev, [questionNumber]: false }));
+      }
+    }
+  };
+
+  /** Makes a version the answer used by the session, its memo and (after a refresh) its summary. */
+  const keepVersion = (questionNumber: number, index: number) => {
+    const version = answerVersionsRef.current[questionNumber]?.[index];
+    if (!version || (keptVersions[questionNumber] ?? 0) === index) return;
+    const nextAnswers = { ...answers, [questionNumber]: version };
+    const nextKept = { ...keptVersions, [questionNumber]: index };
+    const outdated = summary !== null;
+    setAnswers(nextAnswers);
+    setKeptVersions(nextKept);
+    setSummaryOutdated(outdated);
+    const stored = storedSessionRef.current;
+    if (stored) {
+      persist({
+        ...stored,
+        answers: Object.values(nextAnswers).sort((a, b) => a.question_number - b.question_number),
+        answerVersions: answerVersionsRef.current,
+        keptVersions: nextKept,
+        summaryOutdated: outdated,
+      });
+    }
+  };
+
+  /** Rewrites the summary from the kept answers. */
+  const refreshSummary = async (url: string) => {
+    const askedInSession = sessionIdRef.current;
+    const kept = Object.values(answers).sort((a, b) => a.question_number - b.question_number);
+    setSummaryRefreshing(true);
+    try {
+      const next = await requestSummary(url, {
+        type: "summarize",
+        background,
+        answers: kept.map((a) => ({ question_number: a.question_number, question: a.question, answer: a.answer })),
+        model,
+      });
+      if (sessionIdRef.current !== askedInSession) return;
+      setSummary(next);
+      setSummaryOutdated(false);
+      const stored = storedSessionRef.current;
+      if (stored) persist({ ...stored, summary: next, summaryOutdated: false });
+    } catch (err) {
+      if (sessionIdRef.current !== askedInSession) return;
+      console.error("[IFRS WS] Summary refresh failed", err);
+      toast({ title: "Could not update the summary", description: err instanceof Error ? err.message : undefined });
+    } finally {
+      if (sessionIdRef.current === askedInSession) setSummaryRefreshing(false);
+    }
+  };
+
+  return {
+    start,
+    stop,
+    cancelQuestion,
+    load,
+    askFollowUp,
+    regenerate,
+    keepVersion,
+    refreshSummary,
+    sessionId,
+    storedSession,
+    sessionLoading,
+    background,
+    questions,
+    model,
+    answers,
+    drafts,
+    stages,
+    pending,
+    reconnectAttempt,
+    serverIdleMs,
+    questionTimeoutMs,
+    summary,
+    sentInOrder,
+    followUps,
+    answerVersions,
+    keptVersions,
+    regenerating,
+    summaryOutdated,
+    summaryRefreshing,
+    diagnostics,
+  };
+}
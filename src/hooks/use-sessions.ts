@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteSession, getSession, listSessions } from "@/lib/session-store";
+
+export const SESSIONS_QUERY_KEY = ["sessions"] as const;
+
+export function useSessions() {
+  return useQuery({ queryKey: SESSIONS_QUERY_KEY, queryFn: listSessions });
+}
+
+export function useStoredSession(id: string | undefined) {
+  return useQuery({
+    queryKey: [...SESSIONS_QUERY_KEY, id],
+    queryFn: async () => (await getSession(id)) ?? null,
+    enabled: !!id,
+  });
+}
+
+export function useDeleteSession() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteSession,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY }),
+  });
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { splitQuestionList } from "@/lib/advice-form";
+
+describe("splitQuestionList", () => {
+  it.each([
+    ["numbers with a dot", "1. First?\n2. Second?"],
+    ["numbers with a parenthesis", "1) First?\n2) Second?"],
+    ["numbers in parentheses", "(1) First?\n(2) Second?"],
+    ["numbers with a colon or bracket", "1: First?\n2] Second?"],
+    ["letters", "a. First?\nb) Second?"],
+    ["Q-numbers", "Q1: First?\nq2. Second?"],
+    ["dashes", "- First?\n- Second?"],
+    ["asterisks and bullets", "* First?\n• Second?"],
+  ])("strips %s", (_, text) => {
+    expect(splitQuestionList(text)).toEqual(["First?", "Second?"]);
+  });
+
+  it("joins wrapped lines onto the item they continue", () => {
+    expect(splitQuestionList("1. How is the lease term\n   determined?\n\n2. Which rate applies?")).toEqual([
+      "How is the lease term determined?",
+      "Which rate applies?",
+    ]);
+  });
+
+  it("keeps text before the first marker as a question of its own", () => {
+    expect(splitQuestionList("Lease questions\n1. First?\n2. Second?")).toEqual(["Lease questions", "First?", "Second?"]);
+  });
+
+  it("treats every line as a question when nothing is marked", () => {
+    expect(splitQuestionList("  First?\r\n\r\nSecond?  ")).toEqual(["First?", "Second?"]);
+  });
+
+  it("does not mistake a number inside a sentence for a marker", () => {
+    expect(splitQuestionList("IFRS 16 applies from 2019.\nIAS 17 applied before.")).toEqual([
+      "IFRS 16 applies from 2019.",
+      "IAS 17 applied before.",
+    ]);
+  });
+
+  it("drops markers that carry no text", () => {
+    expect(splitQuestionList("1. First?\n2.\n3. Third?")).toEqual(["First?", "Third?"]);
+  });
+});
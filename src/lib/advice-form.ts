@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+/**
+ * Form limits checked before `process_questions` is sent. They are the app's own choice, sized
+ * to keep a session within a reasonable prompt; the server may apply limits of its own.
+ */
+export const MAX_BACKGROUND_CHARS = 8000;
+export const MAX_QUESTION_CHARS = 1000;
+export const MAX_QUESTIONS = 20;
+export const MIN_BACKGROUND_CHARS = 20;
+
+/** Rough prompt budget per request, in tokens, used only for the warning next to the estimate. */
+export const PROMPT_TOKEN_BUDGET = 4000;
+
+const normalizeQuestion = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const adviceFormSchema = z
+  .object({
+    background: z
+      .string()
+      .trim()
+      .min(1, "Describe your IFRS scenario.")
+      .min(MIN_BACKGROUND_CHARS, `Give at least ${MIN_BACKGROUND_CHARS} characters of background.`)
+      .max(MAX_BACKGROUND_CHARS, `Keep the background under ${MAX_BACKGROUND_CHARS.toLocaleString()} characters.`),
+    questions: z.array(
+      z.object({
+        text: z.string().max(MAX_QUESTION_CHARS, `Keep each question under ${MAX_QUESTION_CHARS} characters.`),
+      }),
+    ),
+  })
+  .superRefine(({ questions }, ctx) => {
+    // Blank rows are ignored on submit, so only filled-in questions count towards the limits.
+    const filled = questions.map((q, index) => ({ index, key: normalizeQuestion(q.text) })).filter((q) => q.key);
+    if (filled.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["questions", 0, "text"], message: "Add at least one question." });
+    }
+    if (filled.length > MAX_QUESTIONS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["questions", filled[MAX_QUESTIONS].index, "text"],
+        message: `At most ${MAX_QUESTIONS} questions can be sent in one session.`,
+      });
+    }
+    const firstSeen = new Map<string, number>();
+    for (const { index, key } of filled) {
+      const original = firstSeen.get(key);
+      if (original === undefined) {
+        firstSeen.set(key, index);
+      } else {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["questions", index, "text"],
+          message: `Same as question ${original + 1}.`,
+        });
+      }
+    }
+  });
+
+export type AdviceFormValues = z.input<typeof adviceFormSchema>;
+
+export const toAdviceFormValues = (background: string, questions: string[]): AdviceFormValues => ({
+  background,
+  questions: (questions.length > 0 ? questions : [""]).map((text) => ({ text })),
+});
+
+/** Non-blank questions, trimmed, in form order. */
+export const filledQuestions = (values: AdviceFormValues): string[] =>
+  values.questions.map((q) => q.text.trim()).filter((q) => q.length > 0);
+
+/**
+ * English prose averages about four characters per token; good enough to warn
+ * before sending without shipping a tokenizer.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const LIST_MARKER = /^\s*(?:\(?\d{1,3}[.)\]:]|\(?[a-z][.)]|q\d{1,3}[.):]?|[-*•])(?:\s+|$)/i;
+
+/**
+ * Splits a pasted list into questions. Numbered ("1.", "2)", "(3)", "Q4:") and bulleted
+ * lines start a new question; unmarked lines continue the previous one, so wrapped
+ * items survive. Without any markers every non-blank line is its own question.
+ */
+export const splitQuestionList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (!lines.some((line) => LIST_MARKER.test(line))) return lines.map((line) => line.trim());
+
+  const items: string[] = [];
+  for (const line of lines) {
+    if (LIST_MARKER.test(line) || items.length === 0) {
+      items.push(line.replace(LIST_MARKER, "").trim());
+    } else {
+      items[items.length - 1] = `${items[items.length - 1]} ${line.trim()}`;
+    }
+  }
+  return items.filter((item) => item.length > 0);
+};
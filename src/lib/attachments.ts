@@ -0,0 +1,148 @@
+import type { AttachmentPayload } from "@/lib/rag-protocol";
+import { formatBytes } from "@/lib/utils";
+
+/**
+ * Supporting documents are read in the browser and only their text is sent to
+ * the server, in `process_questions.attachments`. The parsers are loaded on
+ * demand so they stay out of the main bundle.
+ */
+
+export const MAX_ATTACHMENTS = 5;
+/** Largest file accepted for extraction. */
+export const MAX_ATTACHMENT_FILE_BYTES = 10 * 1024 * 1024;
+/** Extracted text kept per file; the rest is cut off and the attachment marked truncated. */
+export const MAX_ATTACHMENT_CHARS = 40_000;
+/** Extracted text across all attachments; the app's own cap, to keep the payload within a reasonable prompt. */
+export const MAX_TOTAL_ATTACHMENT_CHARS = 100_000;
+
+export type AttachmentKind = "pdf" | "docx" | "xlsx" | "csv";
+
+export const ACCEPTED_ATTACHMENT_TYPES = ".pdf,.docx,.xlsx,.csv";
+
+export interface ExtractedAttachment extends AttachmentPayload {
+  id: string;
+  kind: AttachmentKind;
+}
+
+export class AttachmentError extends Error {}
+
+const kindOf = (file: File): AttachmentKind | null => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "pdf":
+    case "docx":
+    case "xlsx":
+    case "csv":
+      return extension;
+    default:
+      return null;
+  }
+};
+
+const extractPdf = async (file: File): Promise<string> => {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let n = 1; n <= doc.numPages; n++) {
+    const content = await (await doc.getPage(n)).getTextContent();
+    const text = content.items
+      .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+      .join("")
+      .trim();
+    if (text) pages.push(`[Page ${n}]\n${text}`);
+  }
+  await doc.destroy();
+  return pages.join("\n\n");
+};
+
+const extractDocx = async (file: File): Promise<string> => {
+  const mammoth = await import("mammoth");
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value.replace(/\n{3,}/g, "\n\n");
+};
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+/** Sheets become CSV-like text, one section per sheet. */
+const extractXlsx = async (file: File): Promise<string> => {
+  const { default: readXlsxFile } = await import("read-excel-file/browser");
+  const sheets = await readXlsxFile(file);
+  return sheets
+    .map(({ sheet, data }) => {
+      const rows = data
+        .map((row) => row.map(formatCell).join(","))
+        .filter((line) => line.replace(/,/g, "").trim());
+      return rows.length > 0 ? `[Sheet ${sheet}]\n${rows.join("\n")}` : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+};
+
+export const createAttachmentId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Reads a supported file's text; throws AttachmentError for unsupported, oversized or empty files. */
+export const extractAttachment = async (file: File): Promise<ExtractedAttachment> => {
+  const kind = kindOf(file);
+  if (!kind) throw new AttachmentError(`${file.name}: only PDF, DOCX, XLSX and CSV files are supported.`);
+  if (file.size > MAX_ATTACHMENT_FILE_BYTES) {
+    throw new AttachmentError(`${file.name}: files over ${formatBytes(MAX_ATTACHMENT_FILE_BYTES)} are not accepted.`);
+  }
+
+  let text: string;
+  try {
+    text = (
+      kind === "pdf"
+        ? await extractPdf(file)
+        : kind === "docx"
+          ? await extractDocx(file)
+          : kind === "xlsx"
+            ? await extractXlsx(file)
+            : await file.text()
+    ).trim();
+  } catch (err) {
+    console.warn("[IFRS attachments] Extraction failed", file.name, err);
+    throw new AttachmentError(`${file.name}: the text could not be extracted.`);
+  }
+  if (!text) throw new AttachmentError(`${file.name}: no text found (scanned documents are not supported).`);
+
+  const truncated = text.length > MAX_ATTACHMENT_CHARS;
+  return {
+    id: createAttachmentId(),
+    kind,
+    name: file.name,
+    mime_type: file.type || `application/${kind}`,
+    size_bytes: file.size,
+    text: truncated ? text.slice(0, MAX_ATTACHMENT_CHARS) : text,
+    truncated,
+  };
+};
+
+export const totalAttachmentChars = (attachments: AttachmentPayload[]) =>
+  attachments.reduce((sum, a) => sum + a.text.length, 0);
+
+/** Why the attachments cannot be sent as they are, or null when they fit the limits. */
+export const attachmentLimitError = (attachments: AttachmentPayload[]): string | null => {
+  if (attachments.length > MAX_ATTACHMENTS) return `Attach at most ${MAX_ATTACHMENTS} documents.`;
+  const total = totalAttachmentChars(attachments);
+  if (total > MAX_TOTAL_ATTACHMENT_CHARS) {
+    return `Attachments hold ${total.toLocaleString()} characters of text; the limit is ${MAX_TOTAL_ATTACHMENT_CHARS.toLocaleString()}.`;
+  }
+  return null;
+};
+
+/** Drops the client-only fields before sending. */
+export const toAttachmentPayload = ({ name, mime_type, size_bytes, text, truncated }: ExtractedAttachment): AttachmentPayload => ({
+  name,
+  mime_type,
+  size_bytes,
+  text,
+  truncated,
+});
@@ -0,0 +1,307 @@
+import { z } from "zod";
+
+/**
+ * Sign-in for the RAG server. Which methods are offered is set at build time in
+ * `VITE_AUTH_METHODS`; when it is empty the advisor connects anonymously as before.
+ *
+ * - `api_key`: a key (or a JWT issued elsewhere) pasted on the login page.
+ * - `oidc`: authorization code flow with PKCE against `VITE_OIDC_ISSUER`. The access
+ *   token is sent to the RAG server and renewed with the refresh token before it expires.
+ *
+ * The token itself is sent as the first frame of every connection; see rag-client.
+ */
+
+export type AuthMethod = "api_key" | "oidc";
+
+export interface AuthCredentials {
+  method: AuthMethod;
+  /** The API key, or the OIDC access token. */
+  token: string;
+  /** Epoch milliseconds, from the JWT `exp` claim or the token response's `expires_in`. */
+  expiresAt?: number;
+  refreshToken?: string;
+  /** Who is signed in, for the header; from the ID or access token claims. */
+  subject?: string;
+}
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  scope: string;
+  redirectUri: string;
+}
+
+export class AuthError extends Error {}
+
+const CREDENTIALS_STORAGE_KEY = "ifrs-advisor:auth";
+const OIDC_PENDING_STORAGE_KEY = "ifrs-advisor:oidc-pending";
+/** Tokens this close to expiry are renewed before connecting rather than sent as they are. */
+const EXPIRY_MARGIN_MS = 60_000;
+
+export const CALLBACK_PATH = "/auth/callback";
+
+export const getAuthMethods = (): AuthMethod[] =>
+  (import.meta.env.VITE_AUTH_METHODS ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter((m): m is AuthMethod => m === "api_key" || m === "oidc");
+
+export const isAuthRequired = () => getAuthMethods().length > 0;
+
+/** OIDC client settings, or null when the issuer or client id is not configured. */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = import.meta.env.VITE_OIDC_ISSUER?.trim();
+  const clientId = import.meta.env.VITE_OIDC_CLIENT_ID?.trim();
+  if (!issuer || !clientId) return null;
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    scope: import.meta.env.VITE_OIDC_SCOPE?.trim() || "openid profile offline_access",
+    redirectUri: `${window.location.origin}${CALLBACK_PATH}`,
+  };
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const randomString = () => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+/** The payload of a JWT, unverified; null when the token is not a JWT. */
+export const decodeJwtClaims = (token: string): Record<string, unknown> | null => {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    const claims: unknown = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))));
+    return claims && typeof claims === "object" ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const subjectOf = (claims: Record<string, unknown> | null) => {
+  const value = claims?.name ?? claims?.preferred_username ?? claims?.email ?? claims?.sub;
+  return typeof value === "string" ? value : undefined;
+};
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedCredentials: AuthCredentials | null = null;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Calls `listener` whenever the credentials change, in this tab or another one. */
+export const subscribeToAuth = (listener: () => void) => {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === CREDENTIALS_STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+};
+
+/** The stored credentials; the same object is returned until they change. */
+export const getCredentials = (): AuthCredentials | null => {
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(CREDENTIALS_STORAGE_KEY);
+  } catch {
+    // Storage unavailable
+  }
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    try {
+      cachedCredentials = raw ? (JSON.parse(raw) as AuthCredentials) : null;
+    } catch {
+      cachedCredentials = null;
+    }
+  }
+  return cachedCredentials;
+};
+
+const saveCredentials = (credentials: AuthCredentials) => {
+  window.localStorage.setItem(CREDENTIALS_STORAGE_KEY, JSON.stringify(credentials));
+  notify();
+  return credentials;
+};
+
+export const signOut = () => {
+  window.localStorage.removeItem(CREDENTIALS_STORAGE_KEY);
+  notify();
+};
+
+export const isExpired = (credentials: AuthCredentials, marginMs = 0) =>
+  credentials.expiresAt !== undefined && credentials.expiresAt - marginMs <= Date.now();
+
+/** Stores an API key. A pasted JWT is accepted too; its `exp` claim is then honoured. */
+export const signInWithApiKey = (key: string): AuthCredentials => {
+  const token = key.trim();
+  if (!token) throw new AuthError("Enter your API key.");
+  const claims = decodeJwtClaims(token);
+  const credentials: AuthCredentials = {
+    method: "api_key",
+    token,
+    ...(typeof claims?.exp === "number" && { expiresAt: claims.exp * 1000 }),
+    subject: subjectOf(claims),
+  };
+  if (isExpired(credentials)) throw new AuthError("This token has already expired.");
+  return saveCredentials(credentials);
+};
+
+const discoverySchema = z.object({
+  authorization_endpoint: z.string().url(),
+  token_endpoint: z.string().url(),
+});
+
+const tokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  expires_in: z.number().optional(),
+  refresh_token: z.string().optional(),
+  id_token: z.string().optional(),
+});
+
+let discovery: Promise<z.infer<typeof discoverySchema>> | null = null;
+
+const discover = (config: OidcConfig) => {
+  discovery ??= fetch(`${config.issuer}/.well-known/openid-configuration`)
+    .then((response) => {
+      if (!response.ok) throw new AuthError(`The identity provider could not be reached (HTTP ${response.status}).`);
+      return response.json();
+    })
+    .then((json) => discoverySchema.parse(json))
+    .catch((err) => {
+      discovery = null;
+      throw err instanceof AuthError ? err : new AuthError("The identity provider's configuration could not be read.");
+    });
+  return discovery;
+};
+
+const requireOidcConfig = () => {
+  const config = getOidcConfig();
+  if (!config) throw new AuthError("Single sign-on is not configured.");
+  return config;
+};
+
+const requestTokens = async (config: OidcConfig, params: Record<string, string>, previous?: AuthCredentials) => {
+  const { token_endpoint } = await discover(config);
+  const response = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: config.clientId, ...params }),
+  });
+  if (!response.ok) throw new AuthError(`The identity provider refused the sign-in (HTTP ${response.status}).`);
+  const tokens = tokenResponseSchema.parse(await response.json());
+  const claims = decodeJwtClaims(tokens.access_token);
+  const expiresAt =
+    typeof claims?.exp === "number"
+      ? claims.exp * 1000
+      : tokens.expires_in !== undefined
+        ? Date.now() + tokens.expires_in * 1000
+        : undefined;
+  return saveCredentials({
+    method: "oidc",
+    token: tokens.access_token,
+    expiresAt,
+    refreshToken: tokens.refresh_token ?? previous?.refreshToken,
+    subject: subjectOf(tokens.id_token ? decodeJwtClaims(tokens.id_token) : claims) ?? previous?.subject,
+  });
+};
+
+/** Sends the browser to the identity provider; `returnTo` is where the callback lands afterwards. */
+export const beginOidcSignIn = async (returnTo = "/") => {
+  const config = requireOidcConfig();
+  const { authorization_endpoint } = await discover(config);
+  const state = randomString();
+  const verifier = randomString();
+  const challenge = toBase64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))));
+  window.sessionStorage.setItem(OIDC_PENDING_STORAGE_KEY, JSON.stringify({ state, verifier, returnTo }));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scope,
+    state,
+    code_challenge: challenge,
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url.toString());
+};
+
+/** Handles the redirect back from the identity provider and resolves with the path to return to. */
+export const completeOidcSignIn = async (search: string): Promise<string> => {
+  const config = requireOidcConfig();
+  const params = new URLSearchParams(search);
+  const raw = window.sessionStorage.getItem(OIDC_PENDING_STORAGE_KEY);
+  window.sessionStorage.removeItem(OIDC_PENDING_STORAGE_KEY);
+  const pending = raw ? (JSON.parse(raw) as { state: string; verifier: string; returnTo: string }) : null;
+
+  const error = params.get("error");
+  if (error) throw new AuthError(params.get("error_description") ?? `Sign-in failed (${error}).`);
+  const code = params.get("code");
+  if (!code || !pending || params.get("state") !== pending.state) {
+    throw new AuthError("The sign-in response did not match a sign-in started in this browser. Try again.");
+  }
+  await requestTokens(config, {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: pending.verifier,
+  });
+  return pending.returnTo;
+};
+
+let refreshing: Promise<AuthCredentials> | null = null;
+
+/** Renews the OIDC access token; concurrent callers share one request. */
+const refreshOidcSession = (credentials: AuthCredentials) => {
+  refreshing ??= requestTokens(
+    requireOidcConfig(),
+    { grant_type: "refresh_token", refresh_token: credentials.refreshToken ?? "" },
+    credentials,
+  ).finally(() => {
+    refreshing = null;
+  });
+  return refreshing;
+};
+
+/**
+ * The token to send on connect, renewed first when it is about to expire (or when
+ * `forceRefresh` is set because the server rejected it). Resolves with null when sign-in
+ * is not required. Rejects with an `AuthError`, and signs out, when there is no usable
+ * token left, which sends the user back to the login page.
+ */
+export const getAccessToken = async ({ forceRefresh = false }: { forceRefresh?: boolean } = {}): Promise<string | null> => {
+  if (!isAuthRequired()) return null;
+  const credentials = getCredentials();
+  if (!credentials) throw new AuthError("Sign in to use the advisor.");
+  if (!forceRefresh && !isExpired(credentials, EXPIRY_MARGIN_MS)) return credentials.token;
+
+  if (credentials.method === "oidc" && credentials.refreshToken) {
+    try {
+      return (await refreshOidcSession(credentials)).token;
+    } catch (err) {
+      console.warn("[IFRS auth] Token refresh failed", err);
+      signOut();
+      throw new AuthError("Your session has expired. Sign in again.");
+    }
+  }
+  // Nothing to renew with: use the token until it actually expires, unless the server already refused it
+  if (!forceRefresh && !isExpired(credentials)) return credentials.token;
+  signOut();
+  throw new AuthError(
+    credentials.method === "api_key" && !forceRefresh
+      ? "Your token has expired. Sign in again."
+      : "Your credentials were rejected. Sign in again.",
+  );
+};
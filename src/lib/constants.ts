@@ -0,0 +1,4 @@
+export const APP_NAME = "IFRS Wise Advisor";
+
+/** Shown in the page footer and printed on exported memos. */
+export const DISCLAIMER = "Guidance helper, not a substitute for professional judgment.";
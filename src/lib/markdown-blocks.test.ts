@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { parseMarkdownBlocks } from "@/lib/markdown-blocks";
+
+describe("parseMarkdownBlocks", () => {
+  it("reads headings and paragraphs with inline styles", () => {
+    expect(parseMarkdownBlocks("## IFRS 16\n\nThe **lease term** is *non-cancellable*\nplus `options`.")).toEqual([
+      { kind: "heading", level: 2, runs: [{ text: "IFRS 16" }] },
+      {
+        kind: "paragraph",
+        runs: [
+          { text: "The " },
+          { text: "lease term", bold: true },
+          { text: " is " },
+          { text: "non-cancellable", italic: true },
+          { text: " plus " },
+          { text: "options", code: true },
+          { text: "." },
+        ],
+      },
+    ]);
+  });
+
+  it.each(["* * *", "***", "---", "___"])("drops the thematic break %j instead of reading it as a list item", (rule) => {
+    expect(parseMarkdownBlocks(`Before\n\n${rule}\n\nAfter`)).toEqual([
+      { kind: "paragraph", runs: [{ text: "Before" }] },
+      { kind: "paragraph", runs: [{ text: "After" }] },
+    ]);
+  });
+
+  it("keeps blockquotes apart from the surrounding text", () => {
+    expect(parseMarkdownBlocks("Per the standard:\n\n> A lessee shall recognise\n> a right-of-use asset.\n\nSo it applies.")).toEqual([
+      { kind: "paragraph", runs: [{ text: "Per the standard:" }] },
+      { kind: "quote", runs: [{ text: "A lessee shall recognise a right-of-use asset." }] },
+      { kind: "paragraph", runs: [{ text: "So it applies." }] },
+    ]);
+  });
+
+  it("numbers ordered lists from their start and nests sub-lists", () => {
+    expect(parseMarkdownBlocks("3. Identify\n4. Measure\n   - at cost\n   - [x] reviewed")).toEqual([
+      { kind: "list_item", ordered: true, marker: "3.", depth: 0, runs: [{ text: "Identify" }] },
+      { kind: "list_item", ordered: true, marker: "4.", depth: 0, runs: [{ text: "Measure" }] },
+      { kind: "list_item", ordered: false, marker: "•", depth: 1, runs: [{ text: "at cost" }] },
+      { kind: "list_item", ordered: false, marker: "•", depth: 1, runs: [{ text: "[x] " }, { text: "reviewed" }] },
+    ]);
+  });
+
+  it("reads GFM tables as rows of plain text", () => {
+    expect(parseMarkdownBlocks("| Standard | Topic |\n| --- | :-: |\n| **IFRS 16** | Leases |")).toEqual([
+      { kind: "table", rows: [["Standard", "Topic"], ["IFRS 16", "Leases"]] },
+    ]);
+  });
+
+  it("keeps fenced code verbatim", () => {
+    expect(parseMarkdownBlocks("```\nDr Right-of-use asset\n  Cr Lease liability\n```")).toEqual([
+      { kind: "code", text: "Dr Right-of-use asset\n  Cr Lease liability" },
+    ]);
+  });
+
+  it("keeps link targets and strips inline HTML", () => {
+    expect(parseMarkdownBlocks("See [IFRS 16](https://ifrs.org/16)<br>and <b>IAS 17</b>.")).toEqual([
+      {
+        kind: "paragraph",
+        runs: [{ text: "See " }, { text: "IFRS 16 (https://ifrs.org/16)" }, { text: " " }, { text: "and " }, { text: "IAS 17" }, { text: "." }],
+      },
+    ]);
+  });
+});
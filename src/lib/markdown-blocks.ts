@@ -0,0 +1,109 @@
+import type { List, PhrasingContent, Root, RootContent } from "mdast";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+
+/**
+ * Flattens Markdown into the handful of block kinds document export can lay out.
+ * Parsing is left to remark (with GFM, as in the on-screen rendering) so the memo
+ * reads the answer the same way the app shows it; this only walks the syntax tree.
+ * Links keep their target in brackets, raw HTML keeps its text and anything
+ * else without a block kind of its own (thematic breaks, definitions) is dropped.
+ */
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: number; runs: InlineRun[] }
+  | { kind: "paragraph"; runs: InlineRun[] }
+  | { kind: "quote"; runs: InlineRun[] }
+  | { kind: "list_item"; ordered: boolean; marker: string; depth: number; runs: InlineRun[] }
+  | { kind: "code"; text: string }
+  | { kind: "table"; rows: string[][] };
+
+const parser = unified().use(remarkParse).use(remarkGfm);
+
+const htmlText = (html: string) => html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, "");
+
+const withTarget = (label: string, url: string) => (label ? `${label} (${url})` : url);
+
+const inlineRuns = (nodes: PhrasingContent[], style: Omit<InlineRun, "text"> = {}): InlineRun[] =>
+  nodes.flatMap((node): InlineRun[] => {
+    switch (node.type) {
+      case "text":
+        // Soft line breaks inside a paragraph read as spaces, as they do on screen
+        return [{ text: node.value.replace(/\s*\n\s*/g, " "), ...style }];
+      case "inlineCode":
+        return [{ text: node.value, ...style, code: true }];
+      case "strong":
+        return inlineRuns(node.children, { ...style, bold: true });
+      case "emphasis":
+        return inlineRuns(node.children, { ...style, italic: true });
+      case "delete":
+        return inlineRuns(node.children, style);
+      case "link":
+        return [{ text: withTarget(runsToText(inlineRuns(node.children)), node.url), ...style }];
+      case "image":
+        return [{ text: withTarget(node.alt ?? "", node.url), ...style }];
+      case "break":
+        return [{ text: " ", ...style }];
+      case "html":
+        return [{ text: htmlText(node.value), ...style }];
+      default:
+        return [];
+    }
+  });
+
+/** Inline runs of a paragraph or heading, without empty runs left by stripped HTML. */
+const parseInline = (nodes: PhrasingContent[]): InlineRun[] => inlineRuns(nodes).filter((run) => run.text !== "");
+
+export const runsToText = (runs: InlineRun[]) => runs.map((r) => r.text).join("");
+
+const listBlocks = (list: List, depth: number): MarkdownBlock[] =>
+  list.children.flatMap((item, i): MarkdownBlock[] => {
+    const [first, ...rest] = item.children;
+    const lead = first?.type === "paragraph" ? parseInline(first.children) : [];
+    const check = item.checked === true ? "[x] " : item.checked === false ? "[ ] " : "";
+    const marker = list.ordered ? `${(list.start ?? 1) + i}.` : "•";
+    return [
+      { kind: "list_item", ordered: !!list.ordered, marker, depth, runs: check ? [{ text: check }, ...lead] : lead },
+      ...(first?.type === "paragraph" ? rest : item.children).flatMap((child) => toBlocks(child, depth + 1)),
+    ];
+  });
+
+const toBlocks = (node: RootContent, depth = 0): MarkdownBlock[] => {
+  switch (node.type) {
+    case "heading":
+      return [{ kind: "heading", level: node.depth, runs: parseInline(node.children) }];
+    case "paragraph":
+      return [{ kind: "paragraph", runs: parseInline(node.children) }];
+    case "blockquote":
+      return node.children
+        .flatMap((child) => toBlocks(child, depth))
+        .map((block): MarkdownBlock =>
+          block.kind === "paragraph" || block.kind === "heading" ? { kind: "quote", runs: block.runs } : block,
+        );
+    case "list":
+      return listBlocks(node, depth);
+    case "code":
+      return [{ kind: "code", text: node.value }];
+    case "table":
+      return [
+        { kind: "table", rows: node.children.map((row) => row.children.map((cell) => runsToText(parseInline(cell.children)))) },
+      ];
+    case "html": {
+      const text = htmlText(node.value).trim();
+      return text ? [{ kind: "paragraph", runs: [{ text }] }] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+export const parseMarkdownBlocks = (markdown: string): MarkdownBlock[] =>
+  (parser.parse(markdown) as Root).children.flatMap((node) => toBlocks(node));
@@ -0,0 +1,297 @@
+import { APP_NAME, DISCLAIMER } from "@/lib/constants";
+import { parseMarkdownBlocks, runsToText, type MarkdownBlock } from "@/lib/markdown-blocks";
+import type { AnswerSource } from "@/lib/rag-protocol";
+import type { StoredSession } from "@/lib/session-store";
+
+/**
+ * Turns a stored session into a technical accounting memo: the background as
+ * Facts, each question/answer pair as Issue/Analysis and the summary as the
+ * Conclusion. jsPDF and docx are loaded on demand so they stay out of the main bundle.
+ */
+
+export type MemoFormat = "pdf" | "docx";
+
+interface MemoSection {
+  heading: string;
+  subheading?: string;
+  note?: string;
+  blocks: MarkdownBlock[];
+}
+
+interface Memo {
+  title: string;
+  meta: [string, string][];
+  sections: MemoSection[];
+  disclaimer: string;
+}
+
+const formatDateTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : "—");
+
+const sourceBlocks = (sources: AnswerSource[]): MarkdownBlock[] =>
+  sources.length === 0
+    ? []
+    : [
+        { kind: "heading", level: 4, runs: [{ text: "Sources" }] },
+        ...sources.map(
+          (source): MarkdownBlock => ({
+            kind: "list_item",
+            ordered: false,
+            marker: "•",
+            depth: 0,
+            runs: [{ text: `${source.standard} paragraph ${source.paragraph}: `, bold: true }, { text: source.excerpt }],
+          }),
+        ),
+      ];
+
+const buildMemo = (session: StoredSession): Memo => ({
+  title: "Technical Accounting Memo",
+  meta: [
+    ["Prepared", formatDateTime(session.completedAt)],
+    ["Session started", formatDateTime(session.createdAt)],
+    ["Model", session.model],
+    ...(session.attachments?.length
+      ? [["Supporting documents", session.attachments.map((a) => a.name).join(", ")] as [string, string]]
+      : []),
+    ["Prepared with", APP_NAME],
+  ],
+  sections: [
+    { heading: "Facts", blocks: parseMarkdownBlocks(session.background) },
+    ...session.answers.map((a) => ({
+      heading: `Issue ${a.question_number}`,
+      subheading: a.question,
+      note: a.timestamp ? `Answered ${formatDateTime(a.timestamp)}` : undefined,
+      blocks: [
+        { kind: "heading", level: 4, runs: [{ text: "Analysis" }] } as MarkdownBlock,
+        ...parseMarkdownBlocks(a.answer),
+        ...sourceBlocks(a.sources ?? []),
+        ...(session.followUps ?? [])
+          .filter((f) => f.parent_question_number === a.question_number)
+          .flatMap((f): MarkdownBlock[] => [
+            { kind: "heading", level: 4, runs: [{ text: `Follow-up: ${f.question}` }] },
+            ...parseMarkdownBlocks(f.answer),
+            ...sourceBlocks(f.sources ?? []),
+          ]),
+      ],
+    })),
+    {
+      heading: "Conclusion",
+      note: session.summary?.timestamp ? `Summarised ${formatDateTime(session.summary.timestamp)}` : undefined,
+      blocks: session.summary
+        ? parseMarkdownBlocks(session.summary.summary)
+        : [{ kind: "paragraph", runs: [{ text: "No summary was generated for this session." }] }],
+    },
+  ],
+  disclaimer: `${APP_NAME} • ${DISCLAIMER}`,
+});
+
+const memoFileName = (session: StoredSession, format: MemoFormat) =>
+  `ifrs-memo-${session.createdAt.slice(0, 10)}-${session.id.slice(0, 8)}.${format}`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+const renderPdf = async (memo: Memo): Promise<Blob> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const margin = 56;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  const bottom = pageHeight - margin - 24;
+  let y = margin;
+
+  const write = (
+    text: string,
+    { size = 10.5, style = "normal", font = "helvetica", indent = 0, gap = 6 }: {
+      size?: number;
+      style?: "normal" | "bold" | "italic";
+      font?: "helvetica" | "courier";
+      indent?: number;
+      gap?: number;
+    } = {},
+  ) => {
+    doc.setFont(font, style);
+    doc.setFontSize(size);
+    const lineHeight = size * 1.35;
+    for (const line of doc.splitTextToSize(text, contentWidth - indent) as string[]) {
+      if (y + lineHeight > bottom) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const writeBlock = (block: MarkdownBlock) => {
+    switch (block.kind) {
+      case "heading":
+        write(runsToText(block.runs), { size: block.level <= 2 ? 12 : 11, style: "bold", gap: 4 });
+        break;
+      case "paragraph":
+        write(runsToText(block.runs));
+        break;
+      case "quote":
+        write(runsToText(block.runs), { style: "italic", indent: 14 });
+        break;
+      case "list_item":
+        write(`${block.marker} ${runsToText(block.runs)}`, { indent: 14 + block.depth * 14, gap: 3 });
+        break;
+      case "code":
+        write(block.text, { font: "courier", size: 9.5, indent: 8 });
+        break;
+      case "table":
+        block.rows.forEach((row, i) => write(row.join("  |  "), { size: 9.5, style: i === 0 ? "bold" : "normal", gap: 2 }));
+        y += 4;
+        break;
+    }
+  };
+
+  write(memo.title, { size: 18, style: "bold", gap: 10 });
+  memo.meta.forEach(([label, value]) => write(`${label}: ${value}`, { size: 9.5, gap: 1 }));
+  y += 12;
+
+  for (const section of memo.sections) {
+    write(section.heading, { size: 14, style: "bold", gap: 4 });
+    if (section.subheading) write(section.subheading, { style: "italic" });
+    if (section.note) write(section.note, { size: 8.5, gap: 6 });
+    section.blocks.forEach(writeBlock);
+    y += 8;
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(memo.disclaimer, margin, pageHeight - margin / 2);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - margin / 2, { align: "right" });
+  }
+
+  return doc.output("blob");
+};
+
+const renderDocx = async (memo: Memo): Promise<Blob> => {
+  const {
+    AlignmentType,
+    Document,
+    Footer,
+    HeadingLevel,
+    Packer,
+    PageNumber,
+    Paragraph,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+  } = await import("docx");
+
+  const toRuns = (block: { runs: { text: string; bold?: boolean; italic?: boolean; code?: boolean }[] }) =>
+    block.runs.map(
+      (r) => new TextRun({ text: r.text, bold: r.bold, italics: r.italic, font: r.code ? "Consolas" : undefined }),
+    );
+
+  const renderBlock = (block: MarkdownBlock) => {
+    switch (block.kind) {
+      case "heading":
+        return [new Paragraph({ heading: HeadingLevel.HEADING_3, children: toRuns(block) })];
+      case "paragraph":
+        return [new Paragraph({ children: toRuns(block), spacing: { after: 120 } })];
+      case "quote":
+        return [
+          new Paragraph({
+            children: block.runs.map(
+              (r) => new TextRun({ text: r.text, bold: r.bold, italics: true, font: r.code ? "Consolas" : undefined }),
+            ),
+            indent: { left: 360 },
+            spacing: { after: 120 },
+          }),
+        ];
+      case "list_item":
+        return [
+          block.ordered
+            ? new Paragraph({
+                children: [new TextRun(`${block.marker} `), ...toRuns(block)],
+                indent: { left: 360 * (block.depth + 1), hanging: 360 },
+              })
+            : new Paragraph({ children: toRuns(block), bullet: { level: Math.min(block.depth, 8) } }),
+        ];
+      case "code":
+        return block.text.split("\n").map(
+          (line) => new Paragraph({ children: [new TextRun({ text: line, font: "Consolas", size: 18 })] }),
+        );
+      case "table":
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: block.rows.map(
+              (row, i) =>
+                new TableRow({
+                  tableHeader: i === 0,
+                  children: row.map(
+                    (cell) =>
+                      new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: cell, bold: i === 0 })] })] }),
+                  ),
+                }),
+            ),
+          }),
+          new Paragraph({ text: "" }),
+        ];
+    }
+  };
+
+  const doc = new Document({
+    creator: APP_NAME,
+    title: memo.title,
+    sections: [
+      {
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({ text: `${memo.disclaimer} • Page `, size: 16 }),
+                  new TextRun({ children: [PageNumber.CURRENT], size: 16 }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children: [
+          new Paragraph({ heading: HeadingLevel.TITLE, text: memo.title }),
+          ...memo.meta.map(
+            ([label, value]) =>
+              new Paragraph({ children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)] }),
+          ),
+          ...memo.sections.flatMap((section) => [
+            new Paragraph({ heading: HeadingLevel.HEADING_1, text: section.heading, spacing: { before: 240 } }),
+            ...(section.subheading
+              ? [new Paragraph({ children: [new TextRun({ text: section.subheading, italics: true })] })]
+              : []),
+            ...(section.note ? [new Paragraph({ children: [new TextRun({ text: section.note, size: 16 })] })] : []),
+            ...section.blocks.flatMap(renderBlock),
+          ]),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
+
+export const exportSessionMemo = async (session: StoredSession, format: MemoFormat) => {
+  const memo = buildMemo(session);
+  const blob = format === "pdf" ? await renderPdf(memo) : await renderDocx(memo);
+  downloadBlob(blob, memoFileName(session, format));
+};
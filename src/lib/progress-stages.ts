@@ -0,0 +1,50 @@
+import type { ProgressMessage } from "@/lib/rag-protocol";
+
+/**
+ * Per-question stage timelines built from `progress` frames. Times are taken when
+ * each frame arrives in the browser, so they include network latency but need no
+ * clock agreement with the server.
+ */
+
+/** A stage as it is shown while the question is pending. */
+export interface StageEntry {
+  stage: string;
+  /** Epoch milliseconds when the stage was first reported. */
+  startedAt: number;
+  percent?: number;
+}
+
+/** A finished stage as kept in the session record. */
+export interface StageTiming {
+  stage: string;
+  durationMs: number;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  retrieving: "Retrieving",
+  reranking: "Reranking",
+  generating: "Generating",
+};
+
+export const stageLabel = (stage: string) =>
+  STAGE_LABELS[stage] ?? stage.charAt(0).toUpperCase() + stage.slice(1).replace(/_/g, " ");
+
+/** Starts a new stage, or updates the percent of the current one when the stage repeats. */
+export const applyProgress = (timeline: StageEntry[], message: ProgressMessage, at: number): StageEntry[] => {
+  const current = timeline.at(-1);
+  if (current?.stage === message.stage) {
+    return [...timeline.slice(0, -1), { ...current, percent: message.percent ?? current.percent }];
+  }
+  return [...timeline, { stage: message.stage, startedAt: at, percent: message.percent }];
+};
+
+/** e.g. "Retrieving 1.2s · Generating 6.0s". */
+export const formatStageTimings = (timings: StageTiming[]) =>
+  timings.map(({ stage, durationMs }) => `${stageLabel(stage)} ${(durationMs / 1000).toFixed(1)}s`).join(" · ");
+
+/** Each stage lasts until the next one starts; the last one until `endedAt` (when the answer arrived). */
+export const stageDurations = (timeline: StageEntry[], endedAt: number): StageTiming[] =>
+  timeline.map((entry, i) => ({
+    stage: entry.stage,
+    durationMs: Math.max(0, (timeline[i + 1]?.startedAt ?? endedAt) - entry.startedAt),
+  }));
@@ -0,0 +1,305 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuthError } from "@/lib/auth";
+import { RagSessionClient, reconnectDelay, requestModelList, type RagSessionEvents } from "@/lib/rag-client";
+import type { ProcessQuestionsPayload } from "@/lib/rag-protocol";
+import { HttpStreamSocket } from "@/lib/rag-transport";
+import { FakeWebSocket } from "@/test/fake-websocket";
+
+const URL = "ws://rag.test/ws";
+const createSocket = (url: string) => new FakeWebSocket(url);
+
+/** Waits for the socket after `previous` to be created, e.g. once a token has been fetched. */
+const nextSocket = (previous: FakeWebSocket | null) =>
+  vi.waitFor(() => {
+    const socket = FakeWebSocket.instances.at(-1);
+    if (!socket || socket === previous) throw new Error("No new socket yet");
+    return socket;
+  });
+
+const PAYLOAD: ProcessQuestionsPayload = {
+  type: "process_questions",
+  session_id: "session-1",
+  background: "Company A leases an office building for 10 years.",
+  questions: ["First?", "Second?", "Third?"],
+  model: "gpt-4o",
+};
+
+const answer = (question_number: number, question: string) => ({
+  type: "answer",
+  question_number,
+  question,
+  answer: `Answer to ${question}`,
+  timestamp: new Date().toISOString(),
+  sent_in_order: true,
+});
+
+/** Starts a session on a fake socket and records every event it emits. */
+const startSession = () => {
+  const client = new RagSessionClient({ url: URL, createSocket, getToken: null });
+  const events = {
+    answer: [] as RagSessionEvents["answer"][],
+    error: [] as RagSessionEvents["error"][],
+    reconnecting: [] as RagSessionEvents["reconnecting"][],
+    resumed: [] as RagSessionEvents["resumed"][],
+  };
+  client.on("answer", (payload) => events.answer.push(payload));
+  client.on("error", (payload) => events.error.push(payload));
+  client.on("reconnecting", (payload) => events.reconnecting.push(payload));
+  client.on("resumed", (payload) => events.resumed.push(payload));
+  client.start(PAYLOAD);
+  return { events, socket: FakeWebSocket.last() };
+};
+
+describe("reconnectDelay", () => {
+  it("doubles the delay on each attempt up to the cap", () => {
+    const policy = { maxAttempts: 10, baseDelayMs: 1000, maxDelayMs: 16000 };
+    expect([1, 2, 3, 4, 5, 6, 7].map((attempt) => reconnectDelay(attempt, policy))).toEqual([
+      1000, 2000, 4000, 8000, 16000, 16000, 16000,
+    ]);
+  });
+});
+
+describe("RagSessionClient", () => {
+  beforeEach(() => {
+    FakeWebSocket.reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the payload once the socket opens", () => {
+    const { socket } = startSession();
+    expect(socket.sent).toEqual([]);
+    socket.open();
+    expect(socket.sent).toEqual([PAYLOAD]);
+  });
+
+  it.each([
+    ["text that is not JSON", "not json", "Frame is not valid JSON"],
+    ["an unknown frame type", { type: "mystery" }, "type"],
+    ["an answer without its question number", { ...answer(1, "First?"), question_number: undefined }, "question_number"],
+  ])("rejects %s as an invalid_message error", (_, frame, reason) => {
+    const { events, socket } = startSession();
+    socket.open();
+    socket.receive(frame);
+
+    expect(events.answer).toEqual([]);
+    expect(events.error).toEqual([expect.objectContaining({ kind: "invalid_message", message: expect.stringContaining(reason) })]);
+  });
+
+  it("keeps the session going after a malformed frame", () => {
+    const { events, socket } = startSession();
+    socket.open();
+    socket.receive("{");
+    socket.receive(answer(1, "First?"));
+
+    expect(events.answer).toEqual([expect.objectContaining({ question_number: 1, answer: "Answer to First?" })]);
+  });
+
+  it("resumes with the unanswered questions and maps their answers back to the original numbers", () => {
+    vi.useFakeTimers();
+    const { events, socket } = startSession();
+    socket.open();
+    socket.receive(answer(1, "First?"));
+    socket.serverClose(1006);
+
+    expect(events.reconnecting).toEqual([expect.objectContaining({ attempt: 1, delayMs: 1000, pending: [2, 3] })]);
+    vi.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+
+    const resumed = FakeWebSocket.last();
+    expect(resumed).not.toBe(socket);
+    resumed.open();
+    expect(resumed.sent).toEqual([
+      {
+        ...PAYLOAD,
+        questions: ["Second?", "Third?"],
+        resume: {
+          question_numbers: [2, 3],
+          answered: [{ question_number: 1, question: "First?", answer: "Answer to First?" }],
+        },
+      },
+    ]);
+    expect(events.resumed).toEqual([{ attempt: 1, pending: [2, 3] }]);
+
+    // Numbered by position in the re-sent list: 1 is question 2, 2 is question 3
+    resumed.receive(answer(2, "Third?"));
+    resumed.receive(answer(1, "Second?"));
+    expect(events.answer.map((a) => [a.question_number, a.question])).toEqual([
+      [1, "First?"],
+      [3, "Third?"],
+      [2, "Second?"],
+    ]);
+  });
+
+  it("backs off between failed reconnects and gives up after the last attempt", () => {
+    vi.useFakeTimers();
+    const client = new RagSessionClient({ url: URL, createSocket, getToken: null, reconnect: { maxAttempts: 2 } });
+    const reconnecting: RagSessionEvents["reconnecting"][] = [];
+    const closed: RagSessionEvents["closed"][] = [];
+    client.on("reconnecting", (info) => reconnecting.push(info));
+    client.on("closed", (info) => closed.push(info));
+    client.start(PAYLOAD);
+
+    FakeWebSocket.last().open();
+    FakeWebSocket.last().serverClose(1006);
+    vi.advanceTimersByTime(1000);
+    FakeWebSocket.last().serverClose(1006);
+    vi.advanceTimersByTime(2000);
+    FakeWebSocket.last().serverClose(1006);
+
+    expect(reconnecting.map((r) => r.delayMs)).toEqual([1000, 2000]);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    expect(closed).toEqual([{ code: 1006, reason: "", wasClean: false }]);
+  });
+
+  it("keeps backing off while every resumed connection drops before delivering anything", () => {
+    vi.useFakeTimers();
+    const client = new RagSessionClient({ url: URL, createSocket, getToken: null, reconnect: { maxAttempts: 3 } });
+    const reconnecting: RagSessionEvents["reconnecting"][] = [];
+    const closed: RagSessionEvents["closed"][] = [];
+    client.on("reconnecting", (info) => reconnecting.push(info));
+    client.on("closed", (info) => closed.push(info));
+    client.start(PAYLOAD);
+
+    for (const delayMs of [1000, 2000, 4000, 0]) {
+      FakeWebSocket.last().open();
+      FakeWebSocket.last().serverClose(1006);
+      vi.advanceTimersByTime(delayMs);
+    }
+
+    expect(reconnecting.map((r) => r.delayMs)).toEqual([1000, 2000, 4000]);
+    expect(closed).toEqual([{ code: 1006, reason: "", wasClean: false }]);
+  });
+
+  it("starts the backoff over once a resumed connection delivers progress", () => {
+    vi.useFakeTimers();
+    const { events } = startSession();
+    FakeWebSocket.last().open();
+    FakeWebSocket.last().serverClose(1006);
+    vi.advanceTimersByTime(1000);
+    FakeWebSocket.last().open();
+    FakeWebSocket.last().receive({ type: "progress", question_number: 1, stage: "retrieving" });
+    FakeWebSocket.last().serverClose(1006);
+
+    expect(events.reconnecting.map((r) => r.delayMs)).toEqual([1000, 1000]);
+  });
+
+  it("ends the session when the socket for a reconnect cannot be created", () => {
+    vi.useFakeTimers();
+    let invalid = false;
+    const client = new RagSessionClient({
+      url: URL,
+      createSocket: (url) => {
+        if (invalid) throw new SyntaxError("The URL is invalid");
+        return new FakeWebSocket(url);
+      },
+      getToken: null,
+    });
+    const errors: RagSessionEvents["error"][] = [];
+    const closed: RagSessionEvents["closed"][] = [];
+    client.on("error", (err) => errors.push(err));
+    client.on("closed", (info) => closed.push(info));
+    client.start(PAYLOAD);
+
+    FakeWebSocket.last().open();
+    FakeWebSocket.last().serverClose(1006);
+    invalid = true;
+    vi.advanceTimersByTime(1000);
+
+    expect(errors).toEqual([expect.objectContaining({ kind: "connection" })]);
+    expect(closed).toEqual([{ code: 1006, reason: "The URL is invalid", wasClean: false }]);
+  });
+});
+
+describe("RagSessionClient over HTTP streaming", () => {
+  const createHttpSocket = () => new HttpStreamSocket("https://rag.test/stream");
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Starts a session whose requests go to `fetchMock` and records how it ends. */
+  const startHttpSession = (fetchMock: typeof fetch) => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const client = new RagSessionClient({ url: URL, createSocket: createHttpSocket, getToken: null });
+    const events = {
+      answer: [] as RagSessionEvents["answer"][],
+      error: [] as RagSessionEvents["error"][],
+      reconnecting: [] as RagSessionEvents["reconnecting"][],
+      closed: [] as RagSessionEvents["closed"][],
+    };
+    client.on("answer", (payload) => events.answer.push(payload));
+    client.on("error", (payload) => events.error.push(payload));
+    client.on("reconnecting", (payload) => events.reconnecting.push(payload));
+    client.on("closed", (payload) => events.closed.push(payload));
+    client.start(PAYLOAD);
+    return events;
+  };
+
+  it("opens once the first response arrives and reads its frames", async () => {
+    const body = [answer(1, "First?"), { type: "summary", summary: "Done." }].map((f) => `${JSON.stringify(f)}\n`).join("");
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(body, { headers: { "Content-Type": "application/x-ndjson" } }));
+    const events = startHttpSession(fetchMock);
+
+    await vi.waitFor(() => expect(events.closed).toHaveLength(1));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual(PAYLOAD);
+    expect(events.answer).toEqual([expect.objectContaining({ question_number: 1 })]);
+    expect(events.closed).toEqual([{ code: 1000, reason: "", wasClean: true }]);
+  });
+
+  it("ends with a connection error instead of reconnecting when the first request fails", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    const events = startHttpSession(fetchMock);
+
+    await vi.waitFor(() => expect(events.closed).toHaveLength(1));
+    expect(events.error).toEqual([expect.objectContaining({ kind: "connection" })]);
+    expect(events.closed).toEqual([{ code: 1006, reason: "Failed to fetch", wasClean: false }]);
+    expect(events.reconnecting).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("requestModelList", () => {
+  beforeEach(() => {
+    FakeWebSocket.reset();
+  });
+
+  it("renews a refused token and asks once more", async () => {
+    const getToken = vi.fn(async ({ forceRefresh = false } = {}) => (forceRefresh ? "new-token" : "old-token"));
+    const models = requestModelList(URL, { createSocket, getToken });
+
+    const first = await nextSocket(null);
+    first.open();
+    expect(first.sent).toEqual([{ type: "auth", token: "old-token" }, { type: "list_models" }]);
+    first.receive({ type: "auth_error", code: "expired", reason: "Token expired" });
+
+    const second = await nextSocket(first);
+    second.open();
+    expect(second.sent).toEqual([{ type: "auth", token: "new-token" }, { type: "list_models" }]);
+    second.receive({ type: "models", models: ["gpt-4o"] });
+
+    await expect(models).resolves.toEqual([{ id: "gpt-4o", label: "gpt-4o" }]);
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true });
+  });
+
+  it("gives up with an AuthError when the renewed token is refused too", async () => {
+    const getToken = vi.fn(async () => "token");
+    const models = requestModelList(URL, { createSocket, getToken });
+
+    const first = await nextSocket(null);
+    first.open();
+    first.receive({ type: "auth_error", reason: "Unknown key" });
+    const second = await nextSocket(first);
+    second.open();
+    second.receive({ type: "auth_error", reason: "Unknown key" });
+
+    await expect(models).rejects.toThrow(AuthError);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
@@ -0,0 +1,893 @@
+import { AuthError, getAccessToken, isAuthRequired } from "@/lib/auth";
+import type { ModelOption } from "@/lib/rag-config";
+import {
+  answerMessageSchema,
+  authErrorMessageSchema,
+  followUpAnswerMessageSchema,
+  modelsMessageSchema,
+  summaryMessageSchema,
+  parseIncomingMessage,
+  type FollowUpAnswerMessage,
+  type FollowUpMessage,
+  type RegenerateMessage,
+  type SummarizeMessage,
+  type AnsweredQuestion,
+  type AnswerDeltaMessage,
+  type AnswerMessage,
+  type AuthErrorMessage,
+  type OutgoingMessage,
+  type ProcessQuestionsPayload,
+  type ProgressMessage,
+  type SummaryMessage,
+} from "@/lib/rag-protocol";
+import { CONNECT_TIMEOUT_CLOSE_CODE, createSocketFactory, socketTransport } from "@/lib/rag-transport";
+
+/** The subset of the browser WebSocket the client relies on, so tests can pass a fake. */
+export interface RagSocket {
+  readonly readyState: number;
+  /** Set by the sockets in rag-transport; a bare WebSocket leaves it undefined. */
+  readonly transport?: "websocket" | "http";
+  /**
+   * Fired while still connecting by sockets that open with their first message (HTTP streaming):
+   * that message is sent now and `onopen` follows once the server has accepted it.
+   */
+  onready?: ((ev: Event) => void) | null;
+  onopen: ((ev: Event) => void) | null;
+  onmessage: ((ev: MessageEvent) => void) | null;
+  onerror: ((ev: Event) => void) | null;
+  onclose: ((ev: CloseEvent) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type SocketFactory = (url: string) => RagSocket;
+
+/** Resolves with the token for the `auth` frame; `forceRefresh` is set after the server rejected one. */
+export type TokenProvider = (options?: { forceRefresh?: boolean }) => Promise<string | null>;
+
+export type RagSessionErrorKind = "timeout" | "connection" | "send" | "invalid_message" | "auth";
+
+export interface RagSessionError {
+  kind: RagSessionErrorKind;
+  message: string;
+  detail?: unknown;
+}
+
+export interface RagCloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+export interface RagReconnectInfo {
+  attempt: number;
+  delayMs: number;
+  /** Question numbers that will be re-sent once the socket is back. */
+  pending: number[];
+  lastClose: RagCloseInfo;
+}
+
+export type RagDiagnosticKind =
+  | "connecting"
+  | "open"
+  | "sent"
+  | "received"
+  | "invalid_frame"
+  | "stale_frame"
+  | "auth_error"
+  | "heartbeat"
+  | "question_timeout"
+  | "error"
+  | "timeout"
+  | "closed"
+  | "reconnecting"
+  | "cancel";
+
+/** One entry of the connection log shown in the diagnostics panel. */
+export interface RagDiagnostic {
+  at: string;
+  level: "info" | "warn" | "error";
+  kind: RagDiagnosticKind;
+  message: string;
+  /** UTF-8 size of the frame, for `sent` and `received`. */
+  bytes?: number;
+  /** Original question numbers carried by a `sent` payload, or answered by a `received` answer. */
+  questionNumbers?: number[];
+  /** Close code, for `closed` and `reconnecting`. */
+  code?: number;
+  reason?: string;
+}
+
+export interface RagHeartbeatInfo {
+  /** Milliseconds since the last answer, streamed text or progress update, i.e. how long the server has been quietly working. */
+  idleMs: number;
+}
+
+export interface RagQuestionTimeoutInfo {
+  questionNumber: number;
+  timeoutMs: number;
+  /** True when nothing else is left to wait for, so the whole session was cancelled. */
+  sessionEnded: boolean;
+}
+
+export interface RagSessionEvents {
+  answer: AnswerMessage;
+  answer_delta: AnswerDeltaMessage;
+  progress: ProgressMessage;
+  summary: SummaryMessage;
+  error: RagSessionError;
+  closed: RagCloseInfo;
+  reconnecting: RagReconnectInfo;
+  resumed: { attempt: number; pending: number[] };
+  heartbeat: RagHeartbeatInfo;
+  question_timeout: RagQuestionTimeoutInfo;
+  diagnostic: RagDiagnostic;
+}
+
+export type RagSessionEvent = keyof RagSessionEvents;
+
+type Handler<K extends RagSessionEvent> = (payload: RagSessionEvents[K]) => void;
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RagSessionClientOptions {
+  url: string;
+  createSocket?: SocketFactory;
+  /** Defaults to the signed-in credentials when sign-in is enabled; null connects without an `auth` frame. */
+  getToken?: TokenProvider | null;
+  connectTimeoutMs?: number;
+  /** How often to `ping` an open connection. */
+  heartbeatIntervalMs?: number;
+  /** Marks a question timed out after this long without an answer, streamed text or progress update; 0 waits forever. */
+  questionTimeoutMs?: number;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+const SOCKET_CONNECTING = 0;
+const SOCKET_OPEN = 1;
+const NORMAL_CLOSURE = 1000;
+const ABNORMAL_CLOSURE = 1006;
+/** Reported in `closed` when the session ends because its credentials were refused. */
+export const AUTH_FAILED_CLOSE_CODE = 4401;
+/** Used to drop a connection whose server stopped answering pings; it is then retried like any other drop. */
+export const HEARTBEAT_TIMEOUT_CLOSE_CODE = 4000;
+/** Pings that may go unanswered before the connection is considered dead. */
+const MISSED_PONGS_ALLOWED = 2;
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+/** Exponential backoff: base, 2x base, 4x base… capped at `maxDelayMs`. */
+export const reconnectDelay = (attempt: number, policy: ReconnectPolicy) =>
+  Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+
+/** The transport configured in the settings at the time each socket is opened. */
+const defaultSocketFactory: SocketFactory = (url) => createSocketFactory()(url);
+
+const defaultTokenProvider = (): TokenProvider | null => (isAuthRequired() ? getAccessToken : null);
+
+const byteLength = (data: unknown) => (typeof data === "string" ? new TextEncoder().encode(data).length : undefined);
+
+/**
+ * Runs one advisory session over the RAG WebSocket: connects, sends the
+ * `process_questions` payload once the socket opens and turns validated
+ * inbound frames into typed events.
+ *
+ * When sign-in is enabled every connection starts with an `auth` frame. If the server
+ * answers with `auth_error`, the token is renewed once and the session resumes on a
+ * fresh connection; a second refusal ends it with `AUTH_FAILED_CLOSE_CODE`.
+ *
+ * While a socket is open it is pinged every `heartbeatIntervalMs`. Each `pong` is
+ * reported with how long the server has gone without producing an answer, and once
+ * a server has answered pings, missing several in a row drops the connection so it
+ * is resumed instead of hanging. Servers that never answer pings are left alone.
+ * Questions with no answer, `answer_delta` or `progress` frame for `questionTimeoutMs` are
+ * cancelled as timed out.
+ *
+ * Inbound frames that echo a `session_id` other than the payload's are dropped,
+ * so a late frame from an earlier session cannot land in this one.
+ *
+ * If an open socket drops before the summary arrives, the client reconnects
+ * with exponential backoff and re-sends only the questions that have no answer
+ * yet. The backoff starts over once a connection delivers an answer, streamed text
+ * or progress update, so a server that accepts and then drops every connection
+ * still runs out of attempts. Answers on a resumed connection are numbered by their position in the
+ * re-sent list and mapped back to the original question numbers.
+ */
+export class RagSessionClient {
+  private readonly url: string;
+  private readonly createSocket: SocketFactory;
+  private readonly getToken: TokenProvider | null;
+  private readonly connectTimeoutMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly questionTimeoutMs: number;
+  private readonly reconnectPolicy: ReconnectPolicy;
+  private readonly handlers = new Map<RagSessionEvent, Set<(payload: unknown) => void>>();
+  private readonly answered = new Map<number, AnsweredQuestion>();
+  private readonly cancelled = new Set<number>();
+  private payload: ProcessQuestionsPayload | null = null;
+  private socket: RagSocket | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  private readonly questionTimers = new Map<number, ReturnType<typeof setTimeout>>();
+  /** When the current socket last answered a ping; null until it answers one. */
+  private lastPongAt: number | null = null;
+  /** When the last answer, streamed text or progress update arrived (or the payload was sent). */
+  private lastProgressAt = 0;
+  private attempt = 0;
+  private hasOpened = false;
+  private finished = false;
+  private closedByClient = false;
+  /** Set once the token was renewed after an `auth_error`; cleared when an answer arrives. */
+  private reauthenticated = false;
+  /** Original question number for each position in the payload sent on the current socket. */
+  private questionNumbers: number[] = [];
+
+  constructor({
+    url,
+    createSocket = defaultSocketFactory,
+    getToken = defaultTokenProvider(),
+    connectTimeoutMs = 10000,
+    heartbeatIntervalMs = 15000,
+    questionTimeoutMs = 0,
+    reconnect,
+  }: RagSessionClientOptions) {
+    this.url = url;
+    this.createSocket = createSocket;
+    this.getToken = getToken;
+    this.connectTimeoutMs = connectTimeoutMs;
+    this.heartbeatIntervalMs = heartbeatIntervalMs;
+    this.questionTimeoutMs = questionTimeoutMs;
+    this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...reconnect };
+  }
+
+  /** Subscribes to an event and returns the matching unsubscribe function. */
+  on<K extends RagSessionEvent>(event: K, handler: Handler<K>): () => void {
+    if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+    const set = this.handlers.get(event);
+    const listener = handler as (payload: unknown) => void;
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  start(payload: ProcessQuestionsPayload) {
+    if (this.payload) {
+      throw new Error("RagSessionClient.start() can only be called once per client");
+    }
+    this.payload = payload;
+
+    console.groupCollapsed("[IFRS WS] New session");
+    console.info("[IFRS WS] Preparing to connect", {
+      url: this.url,
+      timestamp: new Date().toISOString(),
+      sessionId: payload.session_id,
+      pageProtocol: window.location.protocol,
+      secureContext: window.isSecureContext,
+      backgroundLength: payload.background.length,
+      questionCount: payload.questions.length,
+    });
+    this.connect();
+  }
+
+  /** Asks the server to stop the session, then closes the socket cleanly. */
+  cancel() {
+    console.info("[IFRS WS] Cancelling session");
+    this.diagnose("info", "cancel", "Session cancelled");
+    if (this.isOpen()) this.send({ type: "cancel", session_id: this.payload.session_id });
+    this.close(NORMAL_CLOSURE, "Cancelled by user");
+  }
+
+  /**
+   * Stops a single question. Its late frames are dropped and it is not re-sent on reconnect.
+   * Returns true when nothing is left to wait for, in which case the whole session is cancelled
+   * (there is nothing to summarise).
+   */
+  cancelQuestion(questionNumber: number): boolean {
+    if (this.answered.has(questionNumber) || this.cancelled.has(questionNumber)) return false;
+    this.cancelled.add(questionNumber);
+    if (this.answered.size === 0 && this.pendingQuestionNumbers().length === 0) {
+      this.cancel();
+      return true;
+    }
+    const position = this.questionNumbers.indexOf(questionNumber);
+    if (this.isOpen() && position !== -1) {
+      console.info("[IFRS WS] Cancelling question", questionNumber);
+      this.diagnose("info", "cancel", `Question ${questionNumber} cancelled`, { questionNumbers: [questionNumber] });
+      this.send({ type: "cancel", session_id: this.payload.session_id, question_number: position + 1 });
+    }
+    return false;
+  }
+
+  /** Closes the socket and drops every subscriber; no further events are emitted. */
+  close(code = NORMAL_CLOSURE, reason?: string) {
+    if (!this.closedByClient && this.payload) {
+      this.diagnose("info", "closed", `Closed by the app (${code}${reason ? `: ${reason}` : ""})`, { code, reason });
+    }
+    this.closedByClient = true;
+    this.clearConnectTimer();
+    this.stopHeartbeat();
+    this.clearQuestionTimers();
+    if (this.reconnectTimer !== undefined) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.handlers.clear();
+    try {
+      this.socket?.close(code, reason);
+    } catch {
+      // Already closed
+    }
+  }
+
+  private pendingQuestionNumbers(): number[] {
+    return this.payload.questions
+      .map((_, i) => i + 1)
+      .filter((n) => !this.answered.has(n) && !this.cancelled.has(n));
+  }
+
+  private isOpen() {
+    return this.socket?.readyState === SOCKET_OPEN;
+  }
+
+  /** The payload for the current attempt: everything on the first connect, only the gaps on a resume. */
+  private buildPayload(): ProcessQuestionsPayload {
+    const payload = this.payload;
+    if (this.attempt === 0) {
+      this.questionNumbers = payload.questions.map((_, i) => i + 1);
+      return payload;
+    }
+    this.questionNumbers = this.pendingQuestionNumbers();
+    return {
+      ...payload,
+      questions: this.questionNumbers.map((n) => payload.questions[n - 1]),
+      resume: {
+        question_numbers: this.questionNumbers,
+        answered: [...this.answered.values()].sort((a, b) => a.question_number - b.question_number),
+      },
+    };
+  }
+
+  /** Fetches the token first when sign-in is enabled, then opens the socket. */
+  private connect(forceRefresh = false) {
+    if (!this.getToken) {
+      this.openSocket(null);
+      return;
+    }
+    this.getToken({ forceRefresh }).then(
+      (token) => {
+        if (!this.closedByClient) this.openSocket(token);
+      },
+      (err) => {
+        console.error("[IFRS WS] No usable credentials", err);
+        this.failAuth(err instanceof Error ? err.message : "Sign in to use the advisor.");
+      },
+    );
+  }
+
+  private openSocket(token: string | null) {
+    let lastError: RagSessionError | null = null;
+    let socket: RagSocket;
+    try {
+      socket = this.createSocket(this.url);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.error("[IFRS WS] Could not create socket", err);
+      this.diagnose("error", "error", `Could not create socket: ${reason}`);
+      this.emit("error", { kind: "connection", message: "The WebSocket could not be created.", detail: err });
+      // No socket means no close event, so end the session here; retrying the same URL would throw again
+      this.emit("closed", { code: ABNORMAL_CLOSURE, reason, wasClean: false });
+      console.groupEnd();
+      return;
+    }
+    this.socket = socket;
+    console.info("[IFRS WS] Connecting… readyState:", socket.readyState);
+    this.diagnose("info", "connecting", this.attempt > 0 ? `Connecting to ${this.url} (attempt ${this.attempt})` : `Connecting to ${this.url}`);
+
+    // Timeout if connection hangs
+    const armConnectTimer = () => {
+      this.connectTimer = setTimeout(() => {
+        if (socket.readyState !== SOCKET_CONNECTING) return;
+        console.error(`[IFRS WS] Connection timeout after ${this.connectTimeoutMs / 1000}s`);
+        this.diagnose("error", "timeout", `No handshake within ${this.connectTimeoutMs / 1000}s`);
+        lastError = {
+          kind: "timeout",
+          message: `Could not establish a secure WebSocket within ${this.connectTimeoutMs / 1000}s. Check TLS/cert or server availability.`,
+        };
+        try {
+          socket.close(CONNECT_TIMEOUT_CLOSE_CODE, "Connect timeout");
+        } catch {
+          // Already closing
+        }
+        // A socket that can fall back to HTTP streaming switched transports instead of closing
+        if (socket.readyState === SOCKET_CONNECTING) {
+          lastError = null;
+          armConnectTimer();
+        }
+      }, this.connectTimeoutMs);
+    };
+    armConnectTimer();
+
+    let payloadSent = false;
+    /** Sends the `auth` frame and the payload, once per socket; false if the socket refused them. */
+    const sendPayload = () => {
+      if (payloadSent) return true;
+      if (token && !this.send({ type: "auth", token })) return false;
+      const payload = this.buildPayload();
+      console.debug("[IFRS WS] Sending payload:", {
+        ...payload,
+        // Avoid logging entire background/questions content if too long
+        backgroundPreview: payload.background.slice(0, 120),
+        questionsPreview: payload.questions.map((q) => q.slice(0, 80)),
+        attachments: payload.attachments?.map((a) => ({ name: a.name, chars: a.text.length })),
+      });
+      if (!this.send(payload)) return false;
+      payloadSent = true;
+      console.info("[IFRS WS] Payload sent successfully");
+      this.diagnose(
+        "info",
+        "sent",
+        payload.resume
+          ? `Resumed with ${payload.questions.length} unanswered question(s)`
+          : `Sent process_questions with ${payload.questions.length} question(s)`,
+        { bytes: byteLength(JSON.stringify(payload)), questionNumbers: this.questionNumbers },
+      );
+      return true;
+    };
+
+    // HTTP streaming opens with the payload itself, so it goes out before `onopen`
+    socket.onready = () => {
+      sendPayload();
+    };
+
+    socket.onopen = () => {
+      this.clearConnectTimer();
+      this.hasOpened = true;
+      console.info("[IFRS WS] Connected (onopen). readyState:", socket.readyState);
+      this.diagnose("info", "open", socketTransport(socket) === "http" ? "Connected via HTTP streaming" : "Connected via WebSocket");
+      if (!sendPayload()) return;
+      this.lastProgressAt = Date.now();
+      this.questionNumbers.forEach((n) => this.restartQuestionTimer(n));
+      this.startHeartbeat(socket);
+      if (this.attempt > 0) this.emit("resumed", { attempt: this.attempt, pending: this.questionNumbers });
+    };
+
+    socket.onmessage = (event) => {
+      console.debug("[IFRS WS] onmessage raw:", event.data);
+      const parsed = parseIncomingMessage(event.data);
+      if (parsed.ok === false) {
+        console.warn("[IFRS WS] Ignoring invalid frame", parsed.reason, {
+          sample: typeof event.data === "string" ? event.data.slice(0, 200) : event.data,
+        });
+        this.diagnose("warn", "invalid_frame", `Ignored invalid frame: ${parsed.reason}`, { bytes: byteLength(event.data) });
+        this.emit("error", { kind: "invalid_message", message: parsed.reason, detail: event.data });
+        return;
+      }
+      const message = parsed.message;
+      if (message.session_id !== undefined && message.session_id !== this.payload.session_id) {
+        console.warn("[IFRS WS] Ignoring frame for another session", {
+          type: message.type,
+          sessionId: message.session_id,
+          currentSessionId: this.payload.session_id,
+        });
+        this.diagnose("warn", "stale_frame", `Ignored ${message.type} for another session (${message.session_id})`, {
+          bytes: byteLength(event.data),
+        });
+        return;
+      }
+      // Only real output shows that a resumed connection works; until then the backoff keeps growing
+      if (message.type === "answer" || message.type === "answer_delta" || message.type === "progress") this.attempt = 0;
+      if (message.type === "answer" || message.type === "summary") {
+        const questionNumber =
+          message.type === "answer" ? (this.questionNumbers[message.question_number - 1] ?? message.question_number) : null;
+        this.diagnose("info", "received", questionNumber ? `Answer to question ${questionNumber}` : "Summary", {
+          bytes: byteLength(event.data),
+          questionNumbers: questionNumber ? [questionNumber] : undefined,
+        });
+      }
+      switch (message.type) {
+        case "answer": {
+          const questionNumber = this.questionNumbers[message.question_number - 1] ?? message.question_number;
+          if (this.answered.has(questionNumber) || this.cancelled.has(questionNumber)) {
+            console.warn("[IFRS WS] Ignoring answer for a finished or cancelled question", questionNumber);
+            break;
+          }
+          const answer = { ...message, question_number: questionNumber };
+          this.answered.set(questionNumber, {
+            question_number: questionNumber,
+            question: answer.question,
+            answer: answer.answer,
+          });
+          console.debug("[IFRS WS] Answer received", answer);
+          this.reauthenticated = false;
+          this.lastProgressAt = Date.now();
+          this.clearQuestionTimer(questionNumber);
+          this.emit("answer", answer);
+          break;
+        }
+        case "answer_delta": {
+          const questionNumber = this.questionNumbers[message.question_number - 1] ?? message.question_number;
+          if (this.answered.has(questionNumber) || this.cancelled.has(questionNumber)) break;
+          this.lastProgressAt = Date.now();
+          this.restartQuestionTimer(questionNumber);
+          this.emit("answer_delta", { ...message, question_number: questionNumber });
+          break;
+        }
+        case "progress": {
+          const questionNumber = this.questionNumbers[message.question_number - 1] ?? message.question_number;
+          if (this.answered.has(questionNumber) || this.cancelled.has(questionNumber)) break;
+          this.lastProgressAt = Date.now();
+          this.restartQuestionTimer(questionNumber);
+          this.emit("progress", { ...message, question_number: questionNumber });
+          break;
+        }
+        case "summary":
+          this.finished = true;
+          console.debug("[IFRS WS] Summary received", message);
+          this.emit("summary", message);
+          break;
+        case "pong":
+          if (this.lastPongAt === null) this.diagnose("info", "heartbeat", "Server answers heartbeats");
+          this.lastPongAt = Date.now();
+          this.emit("heartbeat", { idleMs: this.lastPongAt - this.lastProgressAt });
+          break;
+        case "auth_error":
+          this.handleAuthError(socket, message);
+          break;
+      }
+    };
+
+    socket.onerror = (ev) => {
+      this.clearConnectTimer();
+      console.error("[IFRS WS] onerror fired", ev, { readyState: socket.readyState, url: this.url });
+      this.diagnose("error", "error", "WebSocket error");
+      lastError = {
+        kind: "connection",
+        message: "WebSocket error occurred. Common causes: TLS certificate mismatch (IP vs domain), firewall, or server down.",
+        detail: ev,
+      };
+    };
+
+    socket.onclose = (ev) => {
+      this.clearConnectTimer();
+      this.stopHeartbeat();
+      this.clearQuestionTimers();
+      console.warn("[IFRS WS] onclose", {
+        code: ev.code,
+        reason: ev.reason,
+        wasClean: ev.wasClean,
+        readyState: socket.readyState,
+      });
+      const info = { code: ev.code, reason: ev.reason, wasClean: ev.wasClean };
+      if (!this.closedByClient) {
+        this.diagnose(
+          ev.code === NORMAL_CLOSURE ? "info" : "warn",
+          "closed",
+          `Connection closed (${ev.code}${ev.reason ? `: ${ev.reason}` : ""})`,
+          { code: ev.code, reason: ev.reason },
+        );
+      }
+      if (this.shouldReconnect(info)) {
+        this.scheduleReconnect(info);
+        return;
+      }
+      if (lastError) this.emit("error", lastError);
+      this.emit("closed", info);
+      console.groupEnd();
+    };
+  }
+
+  private startHeartbeat(socket: RagSocket) {
+    this.stopHeartbeat();
+    this.lastPongAt = null;
+    this.heartbeatTimer = setInterval(() => {
+      if (this.socket !== socket || socket.readyState !== SOCKET_OPEN) return;
+      const silentMs = this.lastPongAt === null ? 0 : Date.now() - this.lastPongAt;
+      if (silentMs > this.heartbeatIntervalMs * (MISSED_PONGS_ALLOWED + 1)) {
+        console.warn(`[IFRS WS] No pong for ${Math.round(silentMs / 1000)}s; dropping the connection`);
+        this.diagnose("warn", "heartbeat", `No heartbeat reply for ${Math.round(silentMs / 1000)}s`);
+        this.stopHeartbeat();
+        try {
+          socket.close(HEARTBEAT_TIMEOUT_CLOSE_CODE, "Heartbeat timeout");
+        } catch {
+          // Already closing
+        }
+        return;
+      }
+      try {
+        socket.send(JSON.stringify({ type: "ping", session_id: this.payload.session_id }));
+      } catch (err) {
+        console.warn("[IFRS WS] Could not send ping", err);
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  /** (Re)starts the no-progress timer of a question that is still being answered. */
+  private restartQuestionTimer(questionNumber: number) {
+    if (this.questionTimeoutMs <= 0) return;
+    this.clearQuestionTimer(questionNumber);
+    this.questionTimers.set(
+      questionNumber,
+      setTimeout(() => this.timeOutQuestion(questionNumber), this.questionTimeoutMs),
+    );
+  }
+
+  private clearQuestionTimer(questionNumber: number) {
+    clearTimeout(this.questionTimers.get(questionNumber));
+    this.questionTimers.delete(questionNumber);
+  }
+
+  private clearQuestionTimers() {
+    this.questionTimers.forEach((timer) => clearTimeout(timer));
+    this.questionTimers.clear();
+  }
+
+  private timeOutQuestion(questionNumber: number) {
+    this.questionTimers.delete(questionNumber);
+    if (this.answered.has(questionNumber) || this.cancelled.has(questionNumber)) return;
+    const seconds = Math.round(this.questionTimeoutMs / 1000);
+    console.warn(`[IFRS WS] Question ${questionNumber} timed out after ${seconds}s`);
+    this.diagnose("warn", "question_timeout", `Question ${questionNumber} timed out after ${seconds}s`, {
+      questionNumbers: [questionNumber],
+    });
+    const sessionEnded =
+      this.answered.size === 0 && this.pendingQuestionNumbers().every((n) => n === questionNumber);
+    this.emit("question_timeout", { questionNumber, timeoutMs: this.questionTimeoutMs, sessionEnded });
+    this.cancelQuestion(questionNumber);
+  }
+
+  /** Drops the refused socket and retries once with a renewed token, resuming where the session was. */
+  private handleAuthError(socket: RagSocket, message: AuthErrorMessage) {
+    const reason = message.reason ?? message.code ?? "The server rejected the credentials.";
+    console.warn("[IFRS WS] Authentication rejected", message);
+    this.diagnose("error", "auth_error", `Authentication rejected: ${reason}`);
+    this.clearConnectTimer();
+    this.stopHeartbeat();
+    this.clearQuestionTimers();
+    socket.onready = socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    try {
+      socket.close(NORMAL_CLOSURE);
+    } catch {
+      // Already closed
+    }
+    if (this.getToken && !this.reauthenticated) {
+      this.reauthenticated = true;
+      // Re-sends only what is still unanswered, as after a dropped connection
+      this.attempt += 1;
+      this.connect(true);
+      return;
+    }
+    this.failAuth(reason);
+  }
+
+  private failAuth(reason: string) {
+    this.diagnose("error", "closed", `Authentication failed (${reason})`, { code: AUTH_FAILED_CLOSE_CODE, reason });
+    this.emit("error", { kind: "auth", message: reason });
+    this.emit("closed", { code: AUTH_FAILED_CLOSE_CODE, reason, wasClean: true });
+    console.groupEnd();
+  }
+
+  /** Only sockets that dropped mid-session are retried; a failed first handshake is reported as-is. */
+  private shouldReconnect(info: RagCloseInfo) {
+    return (
+      !this.closedByClient &&
+      !this.finished &&
+      this.hasOpened &&
+      info.code !== NORMAL_CLOSURE &&
+      this.attempt < this.reconnectPolicy.maxAttempts
+    );
+  }
+
+  private scheduleReconnect(lastClose: RagCloseInfo) {
+    this.attempt += 1;
+    const delayMs = reconnectDelay(this.attempt, this.reconnectPolicy);
+    const pending = this.pendingQuestionNumbers();
+    console.warn(`[IFRS WS] Reconnecting in ${delayMs}ms (attempt ${this.attempt})`, { pending });
+    this.diagnose("warn", "reconnecting", `Reconnecting in ${delayMs / 1000}s (attempt ${this.attempt})`, {
+      code: lastClose.code,
+      questionNumbers: pending,
+    });
+    this.emit("reconnecting", { attempt: this.attempt, delayMs, pending, lastClose });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delayMs);
+  }
+
+  private send(message: OutgoingMessage): boolean {
+    try {
+      this.socket?.send(JSON.stringify(message));
+      return true;
+    } catch (err) {
+      console.error("[IFRS WS] Failed to send payload", err);
+      this.emit("error", { kind: "send", message: "Payload could not be sent. See console for details.", detail: err });
+      return false;
+    }
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer !== undefined) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = undefined;
+    }
+  }
+
+  private diagnose(
+    level: RagDiagnostic["level"],
+    kind: RagDiagnosticKind,
+    message: string,
+    extra: Omit<RagDiagnostic, "at" | "level" | "kind" | "message"> = {},
+  ) {
+    this.emit("diagnostic", { at: new Date().toISOString(), level, kind, message, ...extra });
+  }
+
+  private emit<K extends RagSessionEvent>(event: K, payload: RagSessionEvents[K]) {
+    this.handlers.get(event)?.forEach((handler) => handler(payload));
+  }
+}
+
+interface RequestOptions {
+  createSocket?: SocketFactory;
+  getToken?: TokenProvider | null;
+  timeoutMs?: number;
+}
+
+/**
+ * Sends one message over a short-lived socket of its own and resolves with the first
+ * reply `match` accepts (returns non-null for). Rejects on timeout, connection failure
+ * or a close before a matching reply arrived, and with an `AuthError` when the
+ * credentials are missing or refused. A refused token is renewed and the request sent
+ * once more, as the session does on connect.
+ */
+const requestOnce = async <T>(
+  url: string,
+  message: OutgoingMessage,
+  match: (data: unknown) => T | null,
+  { createSocket = defaultSocketFactory, getToken = defaultTokenProvider(), timeoutMs }: RequestOptions & { timeoutMs: number },
+): Promise<T> => {
+  const token = getToken ? await getToken() : null;
+  try {
+    return await exchangeOnce(url, message, match, token, createSocket, timeoutMs);
+  } catch (err) {
+    if (!(err instanceof AuthError) || !getToken) throw err;
+    console.warn(`[IFRS WS] ${message.type} refused, retrying with a renewed token`, err.message);
+    return exchangeOnce(url, message, match, await getToken({ forceRefresh: true }), createSocket, timeoutMs);
+  }
+};
+
+/** One socket round trip for `requestOnce`; rejects with an `AuthError` only when the server refuses `token`. */
+const exchangeOnce = <T>(
+  url: string,
+  message: OutgoingMessage,
+  match: (data: unknown) => T | null,
+  token: string | null,
+  createSocket: SocketFactory,
+  timeoutMs: number,
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    let socket: RagSocket;
+    let settled = false;
+    const settle = () => {
+      settled = true;
+      clearTimeout(timer);
+      try {
+        socket?.close(NORMAL_CLOSURE);
+      } catch {
+        // Already closed
+      }
+    };
+    const fail = (err: Error) => {
+      if (settled) return;
+      settle();
+      reject(err);
+    };
+    const timer = setTimeout(
+      () => fail(new Error(`No reply to ${message.type} within ${timeoutMs / 1000}s`)),
+      timeoutMs,
+    );
+
+    try {
+      socket = createSocket(url);
+    } catch (err) {
+      fail(err instanceof Error ? err : new Error("Could not open WebSocket"));
+      return;
+    }
+    let sent = false;
+    const sendMessage = () => {
+      if (sent) return;
+      sent = true;
+      try {
+        if (token) socket.send(JSON.stringify({ type: "auth", token }));
+        socket.send(JSON.stringify(message));
+      } catch (err) {
+        fail(err instanceof Error ? err : new Error(`Could not send ${message.type}`));
+      }
+    };
+    // HTTP streaming opens with the message itself, so it goes out before `onopen`
+    socket.onready = sendMessage;
+    socket.onopen = sendMessage;
+    socket.onmessage = (event) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      const authError = authErrorMessageSchema.safeParse(data);
+      if (authError.success) {
+        fail(new AuthError(authError.data.reason ?? "The server rejected the credentials."));
+        return;
+      }
+      const result = match(data);
+      if (result === null || settled) return;
+      settle();
+      resolve(result);
+    };
+    socket.onerror = () => fail(new Error(`WebSocket error during ${message.type}`));
+    socket.onclose = (ev) => fail(new Error(`Connection closed before ${message.type} was answered (${ev.code})`));
+  });
+
+/** Asks the server which models it can use. */
+export const requestModelList = (url: string, { timeoutMs = 5000, ...options }: RequestOptions = {}) =>
+  requestOnce<ModelOption[]>(
+    url,
+    { type: "list_models" },
+    (data) => {
+      const result = modelsMessageSchema.safeParse(data);
+      if (!result.success) return null;
+      return result.data.models.map((m) => (typeof m === "string" ? { id: m, label: m } : { id: m.id, label: m.label ?? m.id }));
+    },
+    { ...options, timeoutMs },
+  );
+
+/** Asks a follow-up to an answered question and resolves with the server's `follow_up_answer`. */
+export const requestFollowUp = (url: string, message: FollowUpMessage, { timeoutMs = 120000, ...options }: RequestOptions = {}) =>
+  requestOnce<FollowUpAnswerMessage>(
+    url,
+    message,
+    (data) => {
+      const result = followUpAnswerMessageSchema.safeParse(data);
+      return result.success && result.data.follow_up_id === message.follow_up_id ? result.data : null;
+    },
+    { ...options, timeoutMs },
+  );
+
+/** Re-asks a single question and resolves with the new `answer` for that question number. */
+export const requestRegenerate = (url: string, message: RegenerateMessage, { timeoutMs = 120000, ...options }: RequestOptions = {}) =>
+  requestOnce<AnswerMessage>(
+    url,
+    message,
+    (data) => {
+      const result = answerMessageSchema.safeParse(data);
+      return result.success && result.data.question_number === message.question_number ? result.data : null;
+    },
+    { ...options, timeoutMs },
+  );
+
+/** Asks for a fresh summary over the given answers. */
+export const requestSummary = (url: string, message: SummarizeMessage, { timeoutMs = 120000, ...options }: RequestOptions = {}) =>
+  requestOnce<SummaryMessage>(
+    url,
+    message,
+    (data) => {
+      const result = summaryMessageSchema.safeParse(data);
+      return result.success ? result.data : null;
+    },
+    { ...options, timeoutMs },
+  );
@@ -0,0 +1,260 @@
+const DEFAULT_WS_URL = "wss://104.248.169.227:8443/ws/rag/";
+const SETTINGS_STORAGE_KEY = "ifrs-advisor:rag-settings";
+const MODEL_STORAGE_KEY = "ifrs-advisor:model";
+const DEFAULT_MODELS = ["gpt-4o-mini"];
+const DEFAULT_QUESTION_TIMEOUT_SECONDS = 300;
+
+/** Where `npm run mock:rag` listens by default; offered as a preset in development builds. */
+export const MOCK_WS_URL = import.meta.env.VITE_RAG_MOCK_WS_URL?.trim() || "ws://localhost:8787/ws/rag/";
+
+/** `auto` uses the WebSocket and falls back to HTTP streaming when its handshake fails. */
+export type RagTransportMode = "auto" | "websocket" | "http";
+
+export interface RagSettings {
+  wsUrl: string;
+  /** Endpoint for the HTTP streaming transport; defaults to the WebSocket address over http(s). */
+  httpUrl: string;
+  transport: RagTransportMode;
+  /** A question with no answer, streamed text or progress update for this long is marked timed out; 0 waits forever. */
+  questionTimeoutSeconds: number;
+}
+
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+export type EndpointHealth =
+  | { status: "unknown" }
+  | { status: "checking" }
+  | { status: "reachable"; transport: "websocket" | "http"; latencyMs: number; checkedAt: string }
+  | { status: "unreachable"; reason: string; checkedAt: string };
+
+/** The HTTP streaming endpoint that pairs with a WebSocket one: same host and path, http(s) scheme. */
+export const deriveHttpUrl = (wsUrl: string) => wsUrl.trim().replace(/^ws(s?):\/\//i, "http$1://");
+
+const parseTimeoutSeconds = (value: unknown): number | null => {
+  const seconds = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+};
+
+/** Endpoints baked in at build time: `VITE_RAG_WS_URL` and `VITE_RAG_HTTP_URL`, falling back to the public server. */
+export const getDefaultRagSettings = (): RagSettings => {
+  const wsUrl = import.meta.env.VITE_RAG_WS_URL?.trim() || DEFAULT_WS_URL;
+  return {
+    wsUrl,
+    httpUrl: import.meta.env.VITE_RAG_HTTP_URL?.trim() || deriveHttpUrl(wsUrl),
+    transport: "auto",
+    questionTimeoutSeconds: parseTimeoutSeconds(import.meta.env.VITE_RAG_QUESTION_TIMEOUT_SECONDS) ?? DEFAULT_QUESTION_TIMEOUT_SECONDS,
+  };
+};
+
+const readOverrides = (): Partial<RagSettings> => {
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Partial<RagSettings>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Build-time defaults merged with the overrides saved in this browser. */
+export const getRagSettings = (): RagSettings => {
+  const overrides = readOverrides();
+  const defaults = getDefaultRagSettings();
+  const wsUrl = overrides.wsUrl?.trim() || defaults.wsUrl;
+  return {
+    wsUrl,
+    // A custom WebSocket endpoint implies its own HTTP endpoint unless one was set explicitly
+    httpUrl:
+      overrides.httpUrl?.trim() ||
+      (wsUrl === defaults.wsUrl ? defaults.httpUrl : deriveHttpUrl(wsUrl)),
+    transport: overrides.transport ?? defaults.transport,
+    questionTimeoutSeconds: parseTimeoutSeconds(overrides.questionTimeoutSeconds) ?? defaults.questionTimeoutSeconds,
+  };
+};
+
+export const saveRagSettings = (settings: Partial<RagSettings>) => {
+  window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const clearRagSettings = () => {
+  window.localStorage.removeItem(SETTINGS_STORAGE_KEY);
+};
+
+/** Models from `VITE_RAG_MODELS` (comma separated), used when the server cannot list its own. */
+export const getConfiguredModels = (): ModelOption[] => {
+  const configured = (import.meta.env.VITE_RAG_MODELS ?? "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+  return (configured.length > 0 ? configured : DEFAULT_MODELS).map((id) => ({ id, label: id }));
+};
+
+export const getPreferredModel = (): string | null => {
+  try {
+    return window.localStorage.getItem(MODEL_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const savePreferredModel = (model: string) => {
+  window.localStorage.setItem(MODEL_STORAGE_KEY, model);
+};
+
+/** Returns an error message when the URL cannot be used for a WebSocket, otherwise null. */
+export const validateWsUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "ws:" && url.protocol !== "wss:") {
+      return "The endpoint must start with ws:// or wss://";
+    }
+    return null;
+  } catch {
+    return "Enter a valid URL, e.g. wss://rag.example.com/ws/rag/";
+  }
+};
+
+/** Returns an error message when the per-question timeout is not a whole number of seconds, otherwise null. */
+export const validateQuestionTimeout = (value: string): string | null => {
+  const seconds = Number(value);
+  if (value.trim() === "" || !Number.isInteger(seconds) || seconds < 0) return "Enter a whole number of seconds (0 for no limit).";
+  if (seconds > 0 && seconds < 10) return "Use at least 10 seconds, or 0 for no limit.";
+  return null;
+};
+
+/** Returns an error message when the URL cannot be used for HTTP streaming, otherwise null. */
+export const validateHttpUrl = (value: string): string | null => {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "The endpoint must start with http:// or https://";
+    }
+    return null;
+  } catch {
+    return "Enter a valid URL, e.g. https://rag.example.com/ws/rag/";
+  }
+};
+
+/**
+ * Opens a throwaway WebSocket to the endpoint and closes it as soon as the handshake succeeds.
+ * No payload is sent, so the server never starts a session.
+ */
+const probeWebSocket = (wsUrl: string, timeoutMs: number, signal?: AbortSignal): Promise<EndpointHealth> => {
+  const invalid = validateWsUrl(wsUrl);
+  if (invalid) {
+    return Promise.resolve({ status: "unreachable", reason: invalid, checkedAt: new Date().toISOString() });
+  }
+
+  return new Promise((resolve) => {
+    const startedAt = performance.now();
+    let settled = false;
+    let socket: WebSocket;
+
+    const finish = (result: EndpointHealth) => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timer);
+      try {
+        socket.close(1000, "health check");
+      } catch {
+        // Socket may never have been created or is already closed
+      }
+      resolve(result);
+    };
+
+    const timer = window.setTimeout(() => {
+      finish({
+        status: "unreachable",
+        reason: `No handshake within ${Math.round(timeoutMs / 1000)}s`,
+        checkedAt: new Date().toISOString(),
+      });
+    }, timeoutMs);
+    signal?.addEventListener("abort", () => finish({ status: "unknown" }), { once: true });
+
+    try {
+      socket = new WebSocket(wsUrl);
+    } catch (err) {
+      finish({
+        status: "unreachable",
+        reason: err instanceof Error ? err.message : "Could not open WebSocket",
+        checkedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    socket.onopen = () => {
+      finish({
+        status: "reachable",
+        transport: "websocket",
+        latencyMs: Math.round(performance.now() - startedAt),
+        checkedAt: new Date().toISOString(),
+      });
+    };
+    socket.onerror = () => {
+      finish({
+        status: "unreachable",
+        reason: "Handshake failed (TLS, firewall or server down)",
+        checkedAt: new Date().toISOString(),
+      });
+    };
+    socket.onclose = (ev) => {
+      finish({
+        status: "unreachable",
+        reason: `Closed during handshake (${ev.code})`,
+        checkedAt: new Date().toISOString(),
+      });
+    };
+  });
+};
+
+/**
+ * Sends a bodiless `HEAD` to the HTTP streaming endpoint. It is made in `no-cors` mode, so any
+ * reply, whatever its status or CORS headers, proves the server is there; only a network or TLS
+ * failure rejects.
+ */
+const probeHttp = async (httpUrl: string, timeoutMs: number, signal?: AbortSignal): Promise<EndpointHealth> => {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  const timer = window.setTimeout(() => controller.abort(), timeoutMs);
+  signal?.addEventListener("abort", () => controller.abort(), { once: true });
+  try {
+    await fetch(httpUrl, { method: "HEAD", mode: "no-cors", cache: "no-store", signal: controller.signal });
+    return {
+      status: "reachable",
+      transport: "http",
+      latencyMs: Math.round(performance.now() - startedAt),
+      checkedAt: new Date().toISOString(),
+    };
+  } catch {
+    if (signal?.aborted) return { status: "unknown" };
+    return {
+      status: "unreachable",
+      reason: controller.signal.aborted
+        ? `No response within ${Math.round(timeoutMs / 1000)}s`
+        : "Request failed (TLS, firewall or server down)",
+      checkedAt: new Date().toISOString(),
+    };
+  } finally {
+    window.clearTimeout(timer);
+  }
+};
+
+/**
+ * Checks the endpoint of the configured transport; `auto` tries the WebSocket first and,
+ * like a session would, the HTTP streaming endpoint when the handshake fails. Aborting
+ * `signal` stops the check and resolves with `unknown`.
+ */
+export const checkEndpointHealth = async (
+  { wsUrl, httpUrl, transport }: Pick<RagSettings, "wsUrl" | "httpUrl" | "transport">,
+  { timeoutMs = 5000, signal }: { timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<EndpointHealth> => {
+  if (transport !== "http") {
+    const health = await probeWebSocket(wsUrl, timeoutMs, signal);
+    if (transport === "websocket" || health.status !== "unreachable") return health;
+  }
+  const invalid = validateHttpUrl(httpUrl);
+  if (invalid) return { status: "unreachable", reason: invalid, checkedAt: new Date().toISOString() };
+  return probeHttp(httpUrl, timeoutMs, signal);
+};
@@ -0,0 +1,109 @@
+import type { RagDiagnostic } from "@/lib/rag-client";
+import { formatBytes } from "@/lib/utils";
+
+/**
+ * Folds the client's `diagnostic` events into what the connection badge and the
+ * diagnostics panel show, and renders it as plain text for bug reports.
+ */
+
+export type ConnectionState = "idle" | "connecting" | "open" | "reconnecting" | "closed" | "error";
+
+export interface SessionDiagnostics {
+  state: ConnectionState;
+  url: string | null;
+  /** Newest last, capped at `MAX_LOG_ENTRIES`. */
+  log: RagDiagnostic[];
+  /** When each question was last sent, to time its answer. */
+  sentAt: Record<number, string>;
+  /** Milliseconds from sending a question to receiving its answer. */
+  latencyMs: Record<number, number>;
+  bytesSent: number;
+  bytesReceived: number;
+  lastClose: { code: number; reason?: string; at: string } | null;
+}
+
+const MAX_LOG_ENTRIES = 200;
+
+export const emptyDiagnostics = (url: string | null = null): SessionDiagnostics => ({
+  state: url ? "connecting" : "idle",
+  url,
+  log: [],
+  sentAt: {},
+  latencyMs: {},
+  bytesSent: 0,
+  bytesReceived: 0,
+  lastClose: null,
+});
+
+const nextState = (current: ConnectionState, event: RagDiagnostic): ConnectionState => {
+  switch (event.kind) {
+    case "connecting":
+      return current === "reconnecting" ? "reconnecting" : "connecting";
+    case "open":
+      return "open";
+    case "reconnecting":
+      return "reconnecting";
+    case "error":
+    case "timeout":
+      return "error";
+    case "closed":
+      // Keep the error state so the badge still says why the socket went away
+      if (current === "error") return "error";
+      return event.code === undefined || event.code === 1000 ? "closed" : "error";
+    default:
+      return current;
+  }
+};
+
+export const applyDiagnostic = (diagnostics: SessionDiagnostics, event: RagDiagnostic): SessionDiagnostics => {
+  const next: SessionDiagnostics = {
+    ...diagnostics,
+    state: nextState(diagnostics.state, event),
+    log: [...diagnostics.log, event].slice(-MAX_LOG_ENTRIES),
+  };
+  if (event.kind === "sent") {
+    next.bytesSent += event.bytes ?? 0;
+    next.sentAt = { ...diagnostics.sentAt, ...Object.fromEntries((event.questionNumbers ?? []).map((n) => [n, event.at])) };
+  }
+  if (event.kind === "received" || event.kind === "invalid_frame" || event.kind === "stale_frame") {
+    next.bytesReceived += event.bytes ?? 0;
+  }
+  if (event.kind === "received") {
+    const answered = event.questionNumbers?.[0];
+    const sentAt = answered !== undefined ? diagnostics.sentAt[answered] : undefined;
+    if (sentAt) {
+      next.latencyMs = { ...diagnostics.latencyMs, [answered]: Date.parse(event.at) - Date.parse(sentAt) };
+    }
+  }
+  if (event.kind === "closed" && event.code !== undefined) {
+    next.lastClose = { code: event.code, reason: event.reason, at: event.at };
+  }
+  return next;
+};
+
+/** Plain-text report for pasting into a bug report. Contains no question or answer text. */
+export const formatDiagnosticsReport = (diagnostics: SessionDiagnostics, context: Record<string, string | null>) =>
+  [
+    "IFRS Advisor connection diagnostics",
+    `Generated: ${new Date().toISOString()}`,
+    `User agent: ${navigator.userAgent}`,
+    ...Object.entries(context).map(([key, value]) => `${key}: ${value ?? "—"}`),
+    `Endpoint: ${diagnostics.url ?? "—"}`,
+    `State: ${diagnostics.state}`,
+    `Last close: ${
+      diagnostics.lastClose
+        ? `${diagnostics.lastClose.code}${diagnostics.lastClose.reason ? ` (${diagnostics.lastClose.reason})` : ""} at ${diagnostics.lastClose.at}`
+        : "—"
+    }`,
+    `Sent: ${formatBytes(diagnostics.bytesSent)}, received: ${formatBytes(diagnostics.bytesReceived)}`,
+    "",
+    "Latency per question:",
+    ...(Object.keys(diagnostics.latencyMs).length > 0
+      ? Object.entries(diagnostics.latencyMs).map(([n, ms]) => `  Q${n}: ${ms} ms`)
+      : ["  —"]),
+    "",
+    "Event log:",
+    ...diagnostics.log.map(
+      (e) => `  ${e.at} ${e.level.toUpperCase().padEnd(5)} ${e.kind.padEnd(13)} ${e.message}${e.bytes ? ` [${formatBytes(e.bytes)}]` : ""}`,
+    ),
+  ].join("\n");
@@ -0,0 +1,237 @@
+import { z } from "zod";
+
+/**
+ * Wire format of the RAG WebSocket. Every inbound frame is validated against
+ * `incomingMessageSchema` before it reaches the UI; unknown fields are dropped.
+ *
+ * A session is identified by the `session_id` the client puts on `process_questions`.
+ * The server echoes it on every `answer`, `answer_delta` and `summary`, and frames
+ * carrying another session's id are discarded. Servers that predate it may omit it.
+ */
+
+/** Echo of the `session_id` sent with `process_questions`. */
+const sessionIdField = z.string().min(1).optional();
+
+/** A passage the RAG retrieved for an answer, e.g. IFRS 16 paragraph 22. */
+export const answerSourceSchema = z.object({
+  standard: z.string(),
+  paragraph: z.union([z.string(), z.number()]).transform(String),
+  excerpt: z.string(),
+  /** Retrieval relevance, typically 0–1. */
+  score: z.number().optional(),
+});
+
+export const answerMessageSchema = z.object({
+  type: z.literal("answer"),
+  session_id: sessionIdField,
+  question_number: z.number().int().positive(),
+  question: z.string(),
+  answer: z.string(),
+  timestamp: z.string().optional(),
+  sent_in_order: z.boolean().optional(),
+  /** Model that produced the answer, when the server reports it. */
+  model: z.string().optional(),
+  sources: z.array(answerSourceSchema).optional(),
+});
+
+/** Partial answer text; deltas for a question are appended in arrival order until its `answer` frame lands. */
+export const answerDeltaMessageSchema = z.object({
+  type: z.literal("answer_delta"),
+  session_id: sessionIdField,
+  question_number: z.number().int().positive(),
+  delta: z.string(),
+});
+
+/**
+ * What the server is doing for a question before its answer lands. `stage` is usually
+ * `retrieving`, `reranking` or `generating`, but unknown stages are shown as sent.
+ */
+export const progressMessageSchema = z.object({
+  type: z.literal("progress"),
+  session_id: sessionIdField,
+  question_number: z.number().int().positive(),
+  stage: z.string().min(1),
+  percent: z.number().min(0).max(100).optional(),
+});
+
+export const summaryMessageSchema = z.object({
+  type: z.literal("summary"),
+  session_id: sessionIdField,
+  summary: z.string(),
+  timestamp: z.string().optional(),
+  sent_in_order: z.boolean().optional(),
+});
+
+/** Reply to a `ping`; proves the server is alive while answers take long. */
+export const pongMessageSchema = z.object({
+  type: z.literal("pong"),
+  session_id: sessionIdField,
+  timestamp: z.string().optional(),
+});
+
+/** The server refused the token from the `auth` frame; it closes the connection after sending this. */
+export const authErrorMessageSchema = z.object({
+  type: z.literal("auth_error"),
+  session_id: sessionIdField,
+  /** e.g. `expired` or `invalid`. */
+  code: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+export const incomingMessageSchema = z.discriminatedUnion("type", [
+  answerMessageSchema,
+  answerDeltaMessageSchema,
+  progressMessageSchema,
+  summaryMessageSchema,
+  pongMessageSchema,
+  authErrorMessageSchema,
+]);
+
+/** Reply to a `follow_up`, matched to its request by `follow_up_id`. */
+export const followUpAnswerMessageSchema = z.object({
+  type: z.literal("follow_up_answer"),
+  follow_up_id: z.string(),
+  parent_question_number: z.number().int().positive(),
+  question: z.string(),
+  answer: z.string(),
+  timestamp: z.string().optional(),
+  model: z.string().optional(),
+  sources: z.array(answerSourceSchema).optional(),
+});
+
+/** Reply to `list_models`. Entries may be bare ids or `{ id, label }` objects. */
+export const modelsMessageSchema = z.object({
+  type: z.literal("models"),
+  models: z.array(z.union([z.string(), z.object({ id: z.string(), label: z.string().optional() })])).min(1),
+});
+
+export type FollowUpAnswerMessage = z.infer<typeof followUpAnswerMessageSchema>;
+export type AnswerSource = z.infer<typeof answerSourceSchema>;
+export type AnswerMessage = z.infer<typeof answerMessageSchema>;
+export type AnswerDeltaMessage = z.infer<typeof answerDeltaMessageSchema>;
+export type ProgressMessage = z.infer<typeof progressMessageSchema>;
+export type SummaryMessage = z.infer<typeof summaryMessageSchema>;
+export type AuthErrorMessage = z.infer<typeof authErrorMessageSchema>;
+export type IncomingMessage = z.infer<typeof incomingMessageSchema>;
+
+export interface AnsweredQuestion {
+  question_number: number;
+  question: string;
+  answer: string;
+}
+
+/** Text extracted in the browser from a supporting document. */
+export interface AttachmentPayload {
+  name: string;
+  mime_type: string;
+  /** Size of the original file. */
+  size_bytes: number;
+  text: string;
+  /** True when `text` was cut off at the per-file limit. */
+  truncated: boolean;
+}
+
+export interface ProcessQuestionsPayload {
+  type: "process_questions";
+  /** Generated by the client; also the id of the session in the local history. */
+  session_id: string;
+  background: string;
+  questions: string[];
+  model: string;
+  /** Supporting documents; omitted when none are attached. */
+  attachments?: AttachmentPayload[];
+  /**
+   * Set when resuming after a dropped connection. `questions` then only holds the unanswered
+   * questions, `question_numbers` their numbers in the original session and `answered` the
+   * answers already received, so the summary still covers the whole session.
+   */
+  resume?: {
+    question_numbers: number[];
+    answered: AnsweredQuestion[];
+  };
+}
+
+/** First frame on every connection when sign-in is enabled; carries the API key or access token. */
+export interface AuthMessage {
+  type: "auth";
+  token: string;
+}
+
+/** Sent periodically while a session is open so idle intermediaries keep the connection; answered by `pong`. */
+export interface PingMessage {
+  type: "ping";
+  session_id: string;
+}
+
+/** Stops the whole session, or a single question when `question_number` is set. */
+export interface CancelMessage {
+  type: "cancel";
+  session_id: string;
+  question_number?: number;
+}
+
+export interface ListModelsMessage {
+  type: "list_models";
+}
+
+/**
+ * A question asked under an existing answer. `context` holds the parent question and answer
+ * followed by earlier follow-ups in the same thread, oldest first.
+ */
+export interface FollowUpMessage {
+  type: "follow_up";
+  follow_up_id: string;
+  parent_question_number: number;
+  question: string;
+  background: string;
+  context: { question: string; answer: string }[];
+  model: string;
+}
+
+/** Re-asks one question of a finished session; the server replies with a fresh `answer` frame. */
+export interface RegenerateMessage {
+  type: "regenerate";
+  question_number: number;
+  question: string;
+  background: string;
+  model: string;
+}
+
+/** Asks for a new `summary` over the given answers, e.g. after a different answer version was kept. */
+export interface SummarizeMessage {
+  type: "summarize";
+  background: string;
+  answers: AnsweredQuestion[];
+  model: string;
+}
+
+export type OutgoingMessage =
+  | AuthMessage
+  | ProcessQuestionsPayload
+  | PingMessage
+  | CancelMessage
+  | ListModelsMessage
+  | FollowUpMessage
+  | RegenerateMessage
+  | SummarizeMessage;
+
+export type ParseResult =
+  | { ok: true; message: IncomingMessage }
+  | { ok: false; reason: string };
+
+/** Parses a raw frame (string or already-decoded JSON) into a typed message. */
+export const parseIncomingMessage = (raw: unknown): ParseResult => {
+  let data: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return { ok: false, reason: "Frame is not valid JSON" };
+    }
+  }
+  const result = incomingMessageSchema.safeParse(data);
+  if (!result.success) {
+    return { ok: false, reason: result.error.issues.map((i) => `${i.path.join(".") || "frame"}: ${i.message}`).join("; ") };
+  }
+  return { ok: true, message: result.data };
+};
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagSocket } from "@/lib/rag-client";
+import { createSocketFactory } from "@/lib/rag-transport";
+import { FakeWebSocket } from "@/test/fake-websocket";
+
+const connect = (wsUrl: string): RagSocket => createSocketFactory({ transport: "auto", httpUrl: "https://rag.test/stream" })(wsUrl);
+
+/** Connects to `wsUrl`, fails its WebSocket handshake and resolves once the HTTP fallback opens or closes. */
+const failOver = (wsUrl: string) => {
+  const socket = connect(wsUrl);
+  socket.onready = () => socket.send(JSON.stringify({ type: "list_models" }));
+  const settled = new Promise<"open" | "closed">((resolve) => {
+    socket.onopen = () => resolve("open");
+    socket.onclose = () => resolve("closed");
+  });
+  FakeWebSocket.last().fail();
+  return settled.finally(() => socket.close());
+};
+
+describe("createSocketFactory in auto mode", () => {
+  beforeEach(() => {
+    FakeWebSocket.reset();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("goes straight to HTTP streaming once the fallback worked", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(new ReadableStream())));
+    await expect(failOver("wss://no-websocket.test/ws")).resolves.toBe("open");
+
+    const next = connect("wss://no-websocket.test/ws");
+    expect(next.transport).toBe("http");
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it("tries the WebSocket again when the fallback failed too", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("Failed to fetch");
+      }),
+    );
+    await expect(failOver("wss://restarting.test/ws")).resolves.toBe("closed");
+
+    connect("wss://restarting.test/ws");
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+});
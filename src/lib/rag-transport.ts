@@ -0,0 +1,281 @@
+import { getRagSettings, type RagSettings } from "@/lib/rag-config";
+import type { RagSocket, SocketFactory } from "@/lib/rag-client";
+
+/**
+ * Transports under the session client. Everything above `RagSocket` speaks
+ * the same frames whichever one carries them:
+ *
+ * - `websocket`: the browser WebSocket.
+ * - `http`: every outgoing message is POSTed as JSON to the HTTP endpoint and the
+ *   reply frames stream back in the response body, as Server-Sent Events
+ *   (`data: {...}`) or newline-delimited JSON. There is no handshake: the socket
+ *   fires `ready` to ask for its first message, POSTs it and opens once that
+ *   response's headers arrive. The first response's
+ *   `X-Rag-Stream-Id` header is echoed on later POSTs (e.g. `cancel`) so the
+ *   server can route them to the running session. The socket closes with 1000
+ *   when that first stream ends. The `auth` frame is not POSTed; its token goes in
+ *   the `Authorization` header of every request instead, and a 401 or 403 reply
+ *   is delivered as an `auth_error` frame.
+ * - `auto`: WebSocket first; if its handshake fails, or is abandoned with
+ *   `CONNECT_TIMEOUT_CLOSE_CODE`, the same socket switches to HTTP streaming. Once
+ *   that stream has opened, later connections to the endpoint go straight to HTTP;
+ *   if it fails too, the next connection tries the WebSocket again.
+ */
+
+export type RagTransportKind = "websocket" | "http";
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+const STREAM_ID_HEADER = "X-Rag-Stream-Id";
+const AUTH_FRAME_PREFIX = '{"type":"auth",';
+/** Close code for giving up on a handshake that hangs; an `auto` socket falls back to HTTP instead of closing. */
+export const CONNECT_TIMEOUT_CLOSE_CODE = 4008;
+
+/** WebSocket endpoints that fell back to a working HTTP stream in this page; they are not retried over WebSocket. */
+const blockedWebSockets = new Set<string>();
+
+const closeEvent = (code: number, reason = "", wasClean = code === 1000) =>
+  new CloseEvent("close", { code, reason, wasClean });
+
+/** Yields each frame of an SSE or NDJSON response body as it arrives. */
+async function* readFrames(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const sse = (response.headers.get("Content-Type") ?? "").includes("text/event-stream");
+  const separator = sse ? /\r?\n\r?\n/ : /\r?\n/;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  const toFrame = (chunk: string) =>
+    sse
+      ? chunk
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n")
+      : chunk.trim();
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const parts = buffer.split(separator);
+    buffer = parts.pop() ?? "";
+    for (const part of parts) {
+      const frame = toFrame(part);
+      if (frame) yield frame;
+    }
+  }
+  const rest = toFrame(buffer);
+  if (rest) yield rest;
+}
+
+/** `RagSocket` over POST requests with streamed responses. */
+export class HttpStreamSocket implements RagSocket {
+  readonly transport: RagTransportKind = "http";
+  readyState = CONNECTING;
+  onready: ((ev: Event) => void) | null = null;
+  onopen: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+  onclose: ((ev: CloseEvent) => void) | null = null;
+
+  /** Aborts the primary stream and secondary responses already being read. */
+  private readonly abort = new AbortController();
+  private streamId: string | null = null;
+  private authorization: string | null = null;
+  private started = false;
+
+  constructor(private readonly url: string) {
+    // There is no handshake; the first POST is the real test of the endpoint
+    queueMicrotask(() => {
+      if (this.readyState === CONNECTING) this.onready?.(new Event("ready"));
+    });
+  }
+
+  send(data: string) {
+    if (this.readyState === CLOSED) throw new Error("HTTP stream is not open");
+    // Cheap check first so large payloads are not parsed twice
+    if (data.startsWith(AUTH_FRAME_PREFIX)) {
+      this.authorization = `Bearer ${(JSON.parse(data) as { token: string }).token}`;
+      return;
+    }
+    // Only the message that opens the stream may be sent before it is open
+    if (this.readyState === CONNECTING && this.started) throw new Error("HTTP stream is not open");
+    const primary = !this.started;
+    this.started = true;
+    this.post(data, primary);
+  }
+
+  /**
+   * Stops the primary stream. Secondary POSTs still in flight (e.g. the `cancel` sent just
+   * before closing) are left to reach the server; only their replies are discarded.
+   */
+  close(code = 1000, reason = "") {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.abort.abort();
+    this.onclose?.(closeEvent(code, reason, true));
+  }
+
+  private async post(body: string, primary: boolean) {
+    // Secondary requests get their own controller so closing the socket does not cancel them mid-flight
+    const controller = primary ? this.abort : new AbortController();
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream, application/x-ndjson",
+          ...(this.streamId && { [STREAM_ID_HEADER]: this.streamId }),
+          ...(this.authorization && { Authorization: this.authorization }),
+        },
+        body,
+        signal: controller.signal,
+      });
+      if (!primary) {
+        if (this.readyState === CLOSED) {
+          controller.abort();
+          return;
+        }
+        this.abort.signal.addEventListener("abort", () => controller.abort(), { once: true });
+      }
+      if (response.status === 401 || response.status === 403) {
+        const frame = { type: "auth_error", code: "unauthorized", reason: `HTTP ${response.status}` };
+        this.onmessage?.(new MessageEvent("message", { data: JSON.stringify(frame) }));
+        if (primary) this.fail(1008, `HTTP ${response.status}`);
+        return;
+      }
+      if (!response.ok) {
+        if (primary) this.fail(1011, `HTTP ${response.status}`);
+        else console.warn("[IFRS WS] HTTP stream request failed", response.status);
+        return;
+      }
+      if (primary) {
+        if (this.readyState !== CONNECTING) return;
+        this.streamId = response.headers.get(STREAM_ID_HEADER);
+        this.readyState = OPEN;
+        this.onopen?.(new Event("open"));
+      }
+      for await (const frame of readFrames(response)) {
+        if (this.readyState !== OPEN) return;
+        this.onmessage?.(new MessageEvent("message", { data: frame }));
+      }
+      if (primary && this.readyState === OPEN) {
+        this.readyState = CLOSED;
+        this.onclose?.(closeEvent(1000));
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.warn("[IFRS WS] HTTP stream failed", err);
+      if (primary) this.fail(1006, err instanceof Error ? err.message : "");
+    }
+  }
+
+  private fail(code: number, reason: string) {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.onerror?.(new Event("error"));
+    this.onclose?.(closeEvent(code, reason, false));
+  }
+}
+
+/**
+ * Starts as a WebSocket and swaps in an `HttpStreamSocket` if the handshake fails or
+ * the caller gives up on it with `CONNECT_TIMEOUT_CLOSE_CODE`. Handlers are forwarded
+ * from whichever socket is current, so the switch is invisible to the caller apart
+ * from `transport`.
+ */
+export class FallbackSocket implements RagSocket {
+  onready: ((ev: Event) => void) | null = null;
+  onopen: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+  onclose: ((ev: CloseEvent) => void) | null = null;
+
+  private current: RagSocket;
+  private opened = false;
+  private closedByCaller = false;
+  private fellBack = false;
+
+  constructor(
+    private readonly wsUrl: string,
+    private readonly httpUrl: string,
+  ) {
+    this.current = new WebSocket(wsUrl);
+    this.attach(this.current);
+  }
+
+  get readyState() {
+    return this.current.readyState;
+  }
+
+  get transport(): RagTransportKind {
+    return this.current.transport ?? "websocket";
+  }
+
+  send(data: string) {
+    this.current.send(data);
+  }
+
+  close(code?: number, reason?: string) {
+    // A hanging handshake fails like any other: switch transports rather than close
+    if (code === CONNECT_TIMEOUT_CLOSE_CODE && this.fallBack(this.current)) return;
+    this.closedByCaller = true;
+    this.current.close(code, reason);
+  }
+
+  /** Replaces the WebSocket with HTTP streaming unless it already opened, was closed or was replaced. */
+  private fallBack(socket: RagSocket) {
+    if (this.current !== socket || this.opened || this.closedByCaller || this.fellBack) return false;
+    console.warn("[IFRS WS] WebSocket handshake failed; falling back to HTTP streaming", this.httpUrl);
+    this.fellBack = true;
+    socket.onready = socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    try {
+      socket.close();
+    } catch {
+      // Already closed
+    }
+    this.current = new HttpStreamSocket(this.httpUrl);
+    this.attach(this.current);
+    return true;
+  }
+
+  private attach(socket: RagSocket) {
+    socket.onready = (ev) => this.onready?.(ev);
+    socket.onopen = (ev) => {
+      this.opened = true;
+      // Only now is HTTP known to work; a WebSocket server that was briefly down is tried again otherwise
+      if (this.fellBack) blockedWebSockets.add(this.wsUrl);
+      this.onopen?.(ev);
+    };
+    socket.onmessage = (ev) => this.onmessage?.(ev);
+    socket.onerror = (ev) => {
+      if (this.fallBack(socket)) return;
+      this.onerror?.(ev);
+    };
+    socket.onclose = (ev) => {
+      if (this.fallBack(socket)) return;
+      this.onclose?.(ev);
+    };
+  }
+}
+
+/** Socket factory for the configured transport; see the module comment for the modes. */
+export const createSocketFactory =
+  (settings: Pick<RagSettings, "transport" | "httpUrl"> = getRagSettings()): SocketFactory =>
+  (wsUrl) => {
+    switch (settings.transport) {
+      case "websocket":
+        return new WebSocket(wsUrl);
+      case "http":
+        return new HttpStreamSocket(settings.httpUrl);
+      default:
+        return blockedWebSockets.has(wsUrl)
+          ? new HttpStreamSocket(settings.httpUrl)
+          : new FallbackSocket(wsUrl, settings.httpUrl);
+    }
+  };
+
+/** Which transport a socket from `createSocketFactory` is using. */
+export const socketTransport = (socket: RagSocket): RagTransportKind => socket.transport ?? "websocket";
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { compileTemplate, fieldsFromBody, type ScenarioTemplate } from "@/lib/scenario-templates";
+
+const template = (body: string): ScenarioTemplate => ({
+  id: "custom",
+  name: "Custom",
+  standard: "IFRS 16",
+  description: "",
+  fields: fieldsFromBody(body),
+  body,
+});
+
+describe("compileTemplate", () => {
+  it("fills placeholders, tolerating spaces inside the braces", () => {
+    expect(compileTemplate(template("{{entity}} leases {{ asset }}."), { entity: " Company A ", asset: "an office" })).toBe(
+      "Company A leases an office.",
+    );
+  });
+
+  it("drops lines whose placeholders are all empty and keeps plain lines", () => {
+    const body = "{{entity}} leases a building.\nOptions: {{extension}}.\nNo options were assessed.";
+    expect(compileTemplate(template(body), { entity: "Company A", extension: "  " })).toBe(
+      "Company A leases a building.\nNo options were assessed.",
+    );
+  });
+
+  it("marks empty placeholders on a line that is otherwise filled in", () => {
+    expect(compileTemplate(template("Payments of {{payment}} are made {{frequency}}."), { payment: "100,000" })).toBe(
+      "Payments of 100,000 are made [not provided].",
+    );
+  });
+
+  it("treats placeholders without a field or value like empty ones", () => {
+    const body = "{{entity}} reports under {{framework}}.\nSee {{appendix}}.";
+    const compiled = compileTemplate({ ...template(body), fields: [] }, { entity: "Company A" });
+
+    expect(compiled).toBe("Company A reports under [not provided].");
+  });
+
+  it("trims blank lines left at either end", () => {
+    expect(compileTemplate(template("{{note}}\nCompany A leases a building.\n{{other}}"), {})).toBe(
+      "Company A leases a building.",
+    );
+  });
+});
@@ -0,0 +1,167 @@
+const CUSTOM_TEMPLATES_STORAGE_KEY = "ifrs-advisor:scenario-templates";
+
+export type TemplateFieldType = "text" | "textarea" | "number" | "percent" | "currency" | "date";
+
+export interface TemplateField {
+  /** Placeholder name used in the template body as `{{id}}`. */
+  id: string;
+  label: string;
+  type: TemplateFieldType;
+  placeholder?: string;
+  required?: boolean;
+}
+
+export interface ScenarioTemplate {
+  id: string;
+  name: string;
+  /** Standard(s) the scenario falls under, shown in the palette. */
+  standard: string;
+  description: string;
+  fields: TemplateField[];
+  /**
+   * Background text with `{{field}}` placeholders. A line whose placeholders are all
+   * left empty is dropped when compiling, so optional details simply disappear.
+   */
+  body: string;
+  builtIn?: boolean;
+}
+
+export type TemplateValues = Record<string, string>;
+
+export const BUILT_IN_TEMPLATES: ScenarioTemplate[] = [
+  {
+    id: "ifrs16-lease",
+    name: "Lease (lessee)",
+    standard: "IFRS 16",
+    description: "Right-of-use asset and lease liability for a lessee.",
+    builtIn: true,
+    fields: [
+      { id: "entity", label: "Lessee", type: "text", placeholder: "Company A", required: true },
+      { id: "asset", label: "Underlying asset", type: "text", placeholder: "office building", required: true },
+      { id: "commencement", label: "Commencement date", type: "date", required: true },
+      { id: "term", label: "Non-cancellable term (years)", type: "number", required: true },
+      { id: "extension", label: "Extension / termination options", type: "textarea" },
+      { id: "payment", label: "Fixed payment per period", type: "currency", required: true },
+      { id: "frequency", label: "Payment frequency", type: "text", placeholder: "annually in arrears" },
+      { id: "escalation", label: "Escalation / variable payments", type: "text", placeholder: "CPI-linked, reset every 2 years" },
+      { id: "rate", label: "Discount rate (%)", type: "percent", placeholder: "incremental borrowing rate" },
+      { id: "idc", label: "Initial direct costs", type: "currency" },
+      { id: "incentives", label: "Lease incentives received", type: "currency" },
+    ],
+    body: [
+      "{{entity}} leases {{asset}} under a contract commencing on {{commencement}}.",
+      "The non-cancellable lease term is {{term}} years.",
+      "Options: {{extension}}.",
+      "Lease payments are {{payment}} per period, paid {{frequency}}.",
+      "Escalation / variable payments: {{escalation}}.",
+      "The discount rate is {{rate}}%.",
+      "Initial direct costs incurred: {{idc}}.",
+      "Lease incentives received: {{incentives}}.",
+    ].join("\n"),
+  },
+  {
+    id: "ifrs15-revenue",
+    name: "Revenue from contracts with customers",
+    standard: "IFRS 15",
+    description: "Five-step model: contract, obligations, price, allocation, timing.",
+    builtIn: true,
+    fields: [
+      { id: "entity", label: "Seller", type: "text", placeholder: "Company A", required: true },
+      { id: "customer", label: "Customer", type: "text", placeholder: "Customer B", required: true },
+      { id: "contract_date", label: "Contract date", type: "date", required: true },
+      { id: "deliverables", label: "Goods / services promised", type: "textarea", required: true },
+      { id: "price", label: "Transaction price", type: "currency", required: true },
+      { id: "variable", label: "Variable consideration", type: "text", placeholder: "volume rebates, penalties" },
+      { id: "payment_terms", label: "Payment terms", type: "text", placeholder: "30% upfront, balance on delivery" },
+      { id: "timing", label: "Delivery / performance timing", type: "textarea" },
+      { id: "warranty", label: "Warranties or rights of return", type: "text" },
+    ],
+    body: [
+      "{{entity}} entered into a contract with {{customer}} on {{contract_date}}.",
+      "Under the contract {{entity}} promises: {{deliverables}}.",
+      "The stated transaction price is {{price}}.",
+      "Variable consideration: {{variable}}.",
+      "Payment terms: {{payment_terms}}.",
+      "Timing of delivery / performance: {{timing}}.",
+      "Warranties / returns: {{warranty}}.",
+    ].join("\n"),
+  },
+  {
+    id: "ias36-impairment",
+    name: "Impairment of assets",
+    standard: "IAS 36",
+    description: "Indicators, CGU, carrying amount and recoverable amount.",
+    builtIn: true,
+    fields: [
+      { id: "entity", label: "Entity", type: "text", placeholder: "Company A", required: true },
+      { id: "asset", label: "Asset or cash-generating unit", type: "text", required: true },
+      { id: "reporting_date", label: "Reporting date", type: "date", required: true },
+      { id: "carrying", label: "Carrying amount", type: "currency", required: true },
+      { id: "goodwill", label: "Allocated goodwill", type: "currency" },
+      { id: "indicators", label: "Impairment indicators", type: "textarea", required: true },
+      { id: "fvlcod", label: "Fair value less costs of disposal", type: "currency" },
+      { id: "viu", label: "Value in use", type: "currency" },
+      { id: "rate", label: "Pre-tax discount rate (%)", type: "percent" },
+    ],
+    body: [
+      "{{entity}} is assessing {{asset}} for impairment at {{reporting_date}}.",
+      "The carrying amount is {{carrying}}, including allocated goodwill of {{goodwill}}.",
+      "Indicators identified: {{indicators}}.",
+      "Fair value less costs of disposal is estimated at {{fvlcod}}.",
+      "Value in use is estimated at {{viu}}, using a pre-tax discount rate of {{rate}}%.",
+    ].join("\n"),
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const compileTemplate = (template: ScenarioTemplate, values: TemplateValues): string =>
+  template.body
+    .split("\n")
+    .filter((line) => {
+      const names = [...line.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]);
+      return names.length === 0 || names.some((name) => values[name]?.trim());
+    })
+    .map((line) => line.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name]?.trim() || "[not provided]"))
+    .join("\n")
+    .trim();
+
+/** Names of required fields left empty. */
+export const missingRequiredFields = (template: ScenarioTemplate, values: TemplateValues): string[] =>
+  template.fields.filter((f) => f.required && !values[f.id]?.trim()).map((f) => f.label);
+
+/** Turns each distinct `{{Name}}` in a user-written body into a free-text field. */
+export const fieldsFromBody = (body: string): TemplateField[] => {
+  const names = [...new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1]))];
+  return names.map((name) => ({ id: name, label: name, type: "text" }));
+};
+
+export const loadCustomTemplates = (): ScenarioTemplate[] => {
+  try {
+    const raw = window.localStorage.getItem(CUSTOM_TEMPLATES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ScenarioTemplate[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCustomTemplates = (templates: ScenarioTemplate[]) => {
+  window.localStorage.setItem(CUSTOM_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const saveCustomTemplate = (input: { name: string; standard: string; body: string }): ScenarioTemplate => {
+  const template: ScenarioTemplate = {
+    id: `custom-${Date.now().toString(36)}`,
+    name: input.name.trim(),
+    standard: input.standard.trim() || "Custom",
+    description: input.body.replace(PLACEHOLDER_PATTERN, "…").slice(0, 80),
+    fields: fieldsFromBody(input.body),
+    body: input.body,
+  };
+  writeCustomTemplates([...loadCustomTemplates(), template]);
+  return template;
+};
+
+export const deleteCustomTemplate = (id: string) => {
+  writeCustomTemplates(loadCustomTemplates().filter((t) => t.id !== id));
+};
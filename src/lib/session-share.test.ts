@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { buildShareLink, readSharedSession } from "@/lib/session-share";
+import type { StoredSession } from "@/lib/session-store";
+
+const SESSION: StoredSession = {
+  id: "session-1",
+  createdAt: "2026-01-05T09:00:00.000Z",
+  completedAt: "2026-01-05T09:02:00.000Z",
+  background: "Company A leases an office building for 10 years at 100,000 per year — ünïcödé included.",
+  questions: ["What is the lease term?"],
+  answers: [
+    {
+      type: "answer",
+      question_number: 1,
+      question: "What is the lease term?",
+      answer: "Ten years, plus any extension options that are **reasonably certain** to be exercised.",
+      timestamp: "2026-01-05T09:01:00.000Z",
+      sent_in_order: true,
+    },
+  ],
+  summary: { type: "summary", summary: "Recognise a right-of-use asset.", timestamp: "2026-01-05T09:02:00.000Z", sent_in_order: true },
+  model: "gpt-4o",
+};
+
+const fragmentOf = (link: string) => new URL(link).hash;
+
+describe("session share links", () => {
+  it("round-trips a session through the link fragment", async () => {
+    const link = await buildShareLink(SESSION);
+
+    expect(link.startsWith(`${window.location.origin}/sessions/session-1#data=`)).toBe(true);
+    await expect(readSharedSession(fragmentOf(link))).resolves.toEqual(SESSION);
+  });
+
+  it("returns null when the fragment carries no session", async () => {
+    await expect(readSharedSession("")).resolves.toBeNull();
+    await expect(readSharedSession("#other=1")).resolves.toBeNull();
+  });
+
+  it("returns null for a truncated fragment", async () => {
+    const hash = fragmentOf(await buildShareLink(SESSION));
+    await expect(readSharedSession(hash.slice(0, Math.floor(hash.length / 2)))).resolves.toBeNull();
+  });
+
+  it("returns null for a corrupted fragment", async () => {
+    const hash = fragmentOf(await buildShareLink(SESSION));
+    const at = hash.length - 20;
+    const corrupted = `${hash.slice(0, at)}${hash[at] === "A" ? "B" : "A"}${hash.slice(at + 1)}`;
+
+    await expect(readSharedSession(corrupted)).resolves.toBeNull();
+    await expect(readSharedSession("#data=not*base64")).resolves.toBeNull();
+  });
+
+  it("returns null when the data decodes but is not a session", async () => {
+    const hash = fragmentOf(await buildShareLink({ ...SESSION, id: "" }));
+    await expect(readSharedSession(hash)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { answerMessageSchema, followUpAnswerMessageSchema, summaryMessageSchema } from "@/lib/rag-protocol";
+import type { StoredSession } from "@/lib/session-store";
+
+/**
+ * Sessions live in the IndexedDB of the browser that ran them, so a bare
+ * `/sessions/:id` link only works there. Share links therefore also carry the
+ * session itself, deflated and base64url-encoded in the URL fragment, which is
+ * never sent to the server.
+ */
+
+const SHARE_PARAM = "data";
+
+const storedSessionSchema = z.object({
+  id: z.string().min(1),
+  createdAt: z.string(),
+  completedAt: z.string(),
+  background: z.string(),
+  questions: z.array(z.string()),
+  answers: z.array(answerMessageSchema),
+  summary: summaryMessageSchema.nullable(),
+  model: z.string(),
+  followUps: z.array(followUpAnswerMessageSchema).optional(),
+  answerVersions: z.record(z.string(), z.array(answerMessageSchema)).optional(),
+  keptVersions: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  summaryOutdated: z.boolean().optional(),
+  attachments: z.array(z.object({ name: z.string(), size_bytes: z.number().nonnegative() })).optional(),
+  stageTimings: z
+    .record(z.string(), z.array(z.object({ stage: z.string(), durationMs: z.number().nonnegative() })))
+    .optional(),
+});
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Response(bytes).body.pipeThrough(stream)).arrayBuffer());
+
+export const sessionPath = (id: string) => `/sessions/${encodeURIComponent(id)}`;
+
+/** Absolute link to the read-only session view, with the session embedded for other browsers. */
+export const buildShareLink = async (session: StoredSession): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(session));
+  const packed = await pipeThrough(json, new CompressionStream("deflate-raw"));
+  return `${window.location.origin}${sessionPath(session.id)}#${SHARE_PARAM}=${toBase64Url(packed)}`;
+};
+
+/** Reads a session embedded by `buildShareLink` from a URL fragment; null when absent or invalid. */
+export const readSharedSession = async (hash: string): Promise<StoredSession | null> => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAM);
+  if (!encoded) return null;
+  try {
+    const json = await pipeThrough(fromBase64Url(encoded), new DecompressionStream("deflate-raw"));
+    const result = storedSessionSchema.safeParse(JSON.parse(new TextDecoder().decode(json)));
+    return result.success ? (result.data as StoredSession) : null;
+  } catch (err) {
+    console.warn("[IFRS sessions] Could not read shared session from link", err);
+    return null;
+  }
+};
@@ -0,0 +1,105 @@
+import type { StageTiming } from "@/lib/progress-stages";
+import type { AnswerMessage, FollowUpAnswerMessage, SummaryMessage } from "@/lib/rag-protocol";
+
+const DB_NAME = "ifrs-advisor";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+
+/** A completed advisory session as kept in IndexedDB. */
+export interface StoredSession {
+  id: string;
+  createdAt: string;
+  completedAt: string;
+  background: string;
+  questions: string[];
+  /** Sorted by `question_number`. */
+  answers: AnswerMessage[];
+  summary: SummaryMessage | null;
+  model: string;
+  /** Answered follow-ups, in the order they were asked. Absent on sessions saved before follow-ups existed. */
+  followUps?: FollowUpAnswerMessage[];
+  /** Every answer received per question number, oldest first, once a question has been regenerated. */
+  answerVersions?: Record<number, AnswerMessage[]>;
+  /** Index into `answerVersions` of the version kept in `answers`. */
+  keptVersions?: Record<number, number>;
+  /** True when a different answer version was kept after `summary` was written. */
+  summaryOutdated?: boolean;
+  /** Documents sent with the questions; only their names and sizes are kept, not the extracted text. */
+  attachments?: { name: string; size_bytes: number }[];
+  /** How long each server stage took per question number, from `progress` frames; absent when the server sent none. */
+  stageTimings?: Record<number, StageTiming[]>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SESSIONS_STORE, mode);
+    const request = action(tx.objectStore(SESSIONS_STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error);
+    tx.onabort = () => reject(tx.error ?? request.error);
+  });
+};
+
+export const createSessionId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  await run("readwrite", (store) => store.put(session));
+};
+
+export const getSession = (id: string): Promise<StoredSession | undefined> =>
+  run("readonly", (store) => store.get(id) as IDBRequest<StoredSession | undefined>);
+
+/** Newest first. */
+export const listSessions = async (): Promise<StoredSession[]> => {
+  const sessions = await run("readonly", (store) => store.getAll() as IDBRequest<StoredSession[]>);
+  return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run("readwrite", (store) => store.delete(id));
+};
+
+/** Case-insensitive background match, optionally limited to sessions created on `date` (yyyy-mm-dd, local time). */
+export const filterSessions = (sessions: StoredSession[], query: string, date?: string): StoredSession[] => {
+  const needle = query.trim().toLowerCase();
+  return sessions.filter((session) => {
+    if (needle && !session.background.toLowerCase().includes(needle)) return false;
+    if (date) {
+      const created = new Date(session.createdAt);
+      const localDay = [
+        created.getFullYear(),
+        String(created.getMonth() + 1).padStart(2, "0"),
+        String(created.getDate()).padStart(2, "0"),
+      ].join("-");
+      if (localDay !== date) return false;
+    }
+    return true;
+  });
+};
@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/** Human-readable size with at most one decimal, e.g. "512 B", "1.5 KB", "10 MB". */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  const [value, unit] = bytes < 1024 * 1024 ? [bytes / 1024, "KB"] : [bytes / 1024 / 1024, "MB"]
+  return `${Number(value.toFixed(1))} ${unit}`
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { AuthError, completeOidcSignIn } from "@/lib/auth";
+
+const AuthCallback = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  // The authorization code can only be redeemed once, so StrictMode's second effect run must not retry it
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    completeOidcSignIn(location.search)
+      .then((returnTo) => navigate(returnTo, { replace: true }))
+      .catch((err) => {
+        console.error("[IFRS auth] Sign-in callback failed", err);
+        setError(err instanceof AuthError ? err.message : "Sign-in could not be completed.");
+      });
+  }, [location.search, navigate]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      {error ? (
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-bold">Sign-in failed</h1>
+          <p className="text-muted-foreground">{error}</p>
+          <Link to="/login" className="text-primary underline underline-offset-4 hover:opacity-90">
+            Back to sign-in
+          </Link>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="animate-spin" /> Completing sign-in…
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuthCallback;
@@ -1,25 +1,44 @@
+import { useState } from "react";
+import AccountButton from "@/components/AccountButton";
 import IFRSAdvisor from "@/components/IFRSAdvisor";
+import SessionHistorySidebar from "@/components/SessionHistorySidebar";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { APP_NAME, DISCLAIMER } from "@/lib/constants";
+import type { StoredSession } from "@/lib/session-store";
 
 const Index = () => {
+  const [openedSession, setOpenedSession] = useState<StoredSession | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+
   return (
-    <div className="min-h-screen bg-background">
-      <header className="sticky top-0 z-10 border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container mx-auto py-4">
-          <nav className="flex items-center justify-between">
-            <a href="/" className="text-lg font-semibold">IFRS Wise Advisor</a>
-            <a href="#main" className="text-sm text-muted-foreground underline underline-offset-4">Skip to content</a>
-          </nav>
-        </div>
-      </header>
-      <main id="main" className="container mx-auto px-4 py-8">
-        <IFRSAdvisor />
-      </main>
-      <footer className="border-t mt-12">
-        <div className="container mx-auto px-4 py-6 text-center text-sm text-muted-foreground">
-          © {new Date().getFullYear()} IFRS Wise Advisor • Guidance helper, not a substitute for professional judgment.
-        </div>
-      </footer>
-    </div>
+    <SidebarProvider defaultOpen={false}>
+      {/* Copy so re-opening the same session reloads it even if it is already selected */}
+      <SessionHistorySidebar activeSessionId={activeSessionId} onOpen={(session) => setOpenedSession({ ...session })} />
+      <SidebarInset className="min-h-screen bg-background">
+        <header className="sticky top-0 z-10 border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="container mx-auto py-4">
+            <nav className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <SidebarTrigger aria-label="Toggle session history" />
+                <a href="/" className="text-lg font-semibold">IFRS Wise Advisor</a>
+              </div>
+              <div className="flex items-center gap-4">
+                <a href="#main" className="text-sm text-muted-foreground underline underline-offset-4">Skip to content</a>
+                <AccountButton />
+              </div>
+            </nav>
+          </div>
+        </header>
+        <main id="main" className="container mx-auto px-4 py-8">
+          <IFRSAdvisor openedSession={openedSession} onActiveSessionChange={setActiveSessionId} />
+        </main>
+        <footer className="border-t mt-12">
+          <div className="container mx-auto px-4 py-6 text-center text-sm text-muted-foreground">
+            © {new Date().getFullYear()} {APP_NAME} • {DISCLAIMER}
+          </div>
+        </footer>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { KeyRound, Loader2, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthError, beginOidcSignIn, getAuthMethods, getOidcConfig, signInWithApiKey } from "@/lib/auth";
+import { APP_NAME } from "@/lib/constants";
+
+const Login = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { credentials, required } = useAuth();
+  const [apiKey, setApiKey] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [redirecting, setRedirecting] = useState(false);
+
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+  const methods = getAuthMethods();
+  const oidcAvailable = methods.includes("oidc") && getOidcConfig() !== null;
+
+  if (!required || credentials) return <Navigate to={from} replace />;
+
+  const submitApiKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      signInWithApiKey(apiKey);
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : "The key could not be saved.");
+    }
+  };
+
+  const startOidc = async () => {
+    setError(null);
+    setRedirecting(true);
+    try {
+      await beginOidcSignIn(from);
+    } catch (err) {
+      console.error("[IFRS auth] Could not start single sign-on", err);
+      setError(err instanceof AuthError ? err.message : "Single sign-on could not be started.");
+      setRedirecting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Sign in to {APP_NAME}</CardTitle>
+          <CardDescription>The advisor's server only answers signed-in users.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {oidcAvailable && (
+            <Button className="w-full" onClick={startOidc} disabled={redirecting}>
+              {redirecting ? <Loader2 className="mr-2 animate-spin" /> : <LogIn className="mr-2" />}
+              Sign in with single sign-on
+            </Button>
+          )}
+
+          {oidcAvailable && methods.includes("api_key") && (
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <Separator className="flex-1" /> or <Separator className="flex-1" />
+            </div>
+          )}
+
+          {methods.includes("api_key") && (
+            <form onSubmit={submitApiKey} className="space-y-2">
+              <Label htmlFor="api-key">API key</Label>
+              <Input
+                id="api-key"
+                type="password"
+                autoComplete="off"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Paste your API key or access token"
+              />
+              <p className="text-sm text-muted-foreground">Stored in this browser only and sent to the advisor's server on connect.</p>
+              <Button type="submit" variant={oidcAvailable ? "outline" : "default"} className="w-full">
+                <KeyRound className="mr-2" /> Sign in with API key
+              </Button>
+            </form>
+          )}
+
+          {methods.includes("oidc") && !oidcAvailable && !methods.includes("api_key") && (
+            <p className="text-sm text-muted-foreground">Single sign-on is enabled but no identity provider is configured.</p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Link2, Loader2, Save } from "lucide-react";
+import ExportMemoMenu from "@/components/ExportMemoMenu";
+import SessionView from "@/components/SessionView";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { SESSIONS_QUERY_KEY, useStoredSession } from "@/hooks/use-sessions";
+import { saveSession, type StoredSession } from "@/lib/session-store";
+import { buildShareLink, readSharedSession } from "@/lib/session-share";
+
+const SessionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const { data: stored, isLoading } = useStoredSession(id);
+  const [shared, setShared] = useState<StoredSession | null>(null);
+  const [sharedChecked, setSharedChecked] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    readSharedSession(location.hash).then((session) => {
+      if (cancelled) return;
+      setShared(session && session.id === id ? session : null);
+      setSharedChecked(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [location.hash, id]);
+
+  const session = stored ?? shared;
+  const isImported = !stored && !!shared;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await buildShareLink(session));
+      toast({ title: "Link copied", description: "Anyone with the link can open this session read-only." });
+    } catch (err) {
+      console.error("[IFRS sessions] Could not copy share link", err);
+      toast({ title: "Copy failed", description: "The link could not be copied to the clipboard." });
+    }
+  };
+
+  const saveToHistory = async () => {
+    try {
+      await saveSession(shared);
+      await queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: "Saved", description: "The session was added to your history." });
+    } catch (err) {
+      console.error("[IFRS sessions] Could not save shared session", err);
+      toast({ title: "Save failed", description: "The session could not be stored in this browser." });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto py-4">
+          <nav className="flex items-center justify-between">
+            <Link to="/" className="flex items-center gap-2 text-lg font-semibold">
+              <ArrowLeft className="h-4 w-4" /> IFRS Wise Advisor
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main id="main" className="container mx-auto max-w-4xl px-4 py-8">
+        {(isLoading || !sharedChecked) && !session && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="animate-spin" /> Loading session…
+          </div>
+        )}
+
+        {!isLoading && sharedChecked && !session && (
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold">Session not found</h1>
+            <p className="text-muted-foreground">
+              Sessions are stored in the browser that ran them. Ask for a share link, which carries the session with it.
+            </p>
+          </div>
+        )}
+
+        {session && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle>Advisory session</CardTitle>
+              <div className="flex gap-2">
+                {isImported && (
+                  <Button variant="outline" onClick={saveToHistory}>
+                    <Save className="mr-2" /> Save to my history
+                  </Button>
+                )}
+                <Button variant="outline" onClick={copyLink}>
+                  <Link2 className="mr-2" /> Copy link
+                </Button>
+                <ExportMemoMenu session={session} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <SessionView session={session} />
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SessionDetail;
@@ -0,0 +1,66 @@
+import type { RagSocket } from "@/lib/rag-client";
+
+/**
+ * Stand-in for the browser WebSocket. Every instance is recorded so a test can
+ * play the server: `open()` the socket, `receive()` frames and `serverClose()` it.
+ */
+export class FakeWebSocket implements RagSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  static instances: FakeWebSocket[] = [];
+
+  /** The most recently created socket. */
+  static last(): FakeWebSocket {
+    const socket = FakeWebSocket.instances.at(-1);
+    if (!socket) throw new Error("No WebSocket was created");
+    return socket;
+  }
+
+  static reset() {
+    FakeWebSocket.instances = [];
+  }
+
+  readyState = FakeWebSocket.CONNECTING;
+  onopen: ((ev: Event) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+  onclose: ((ev: CloseEvent) => void) | null = null;
+  /** Frames the app sent, parsed. */
+  readonly sent: unknown[] = [];
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    if (this.readyState !== FakeWebSocket.OPEN) throw new Error("WebSocket is not open");
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.(new CloseEvent("close", { code, reason, wasClean: true }));
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.(new Event("open"));
+  }
+
+  receive(frame: unknown) {
+    this.onmessage?.(new MessageEvent("message", { data: typeof frame === "string" ? frame : JSON.stringify(frame) }));
+  }
+
+  fail() {
+    this.onerror?.(new Event("error"));
+  }
+
+  serverClose(code: number, reason = "") {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.(new CloseEvent("close", { code, reason, wasClean: code === 1000 }));
+  }
+}
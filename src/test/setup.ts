@@ -0,0 +1,36 @@
+import "@testing-library/jest-dom/vitest";
+import "fake-indexeddb/auto";
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+
+afterEach(() => {
+  // Radix clears a toast's close timer when its viewport pauses but not on unmount, and the
+  // timer would otherwise fire after the environment is gone
+  document.querySelectorAll("ol").forEach((list) => list.dispatchEvent(new CustomEvent("toast.viewportPause")));
+  cleanup();
+  window.localStorage.clear();
+});
+
+// jsdom leaves out the layout APIs Radix and the chat scroller call.
+Element.prototype.scrollTo = vi.fn();
+Element.prototype.scrollIntoView = vi.fn();
+Element.prototype.hasPointerCapture = () => false;
+Element.prototype.releasePointerCapture = () => {};
+
+window.ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+window.matchMedia = (query: string) =>
+  ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false,
+  }) as MediaQueryList;
@@ -1 +1,26 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** WebSocket endpoint of the RAG server, e.g. wss://rag.example.com/ws/rag/ */
+  readonly VITE_RAG_WS_URL?: string;
+  /** HTTP streaming endpoint used when WebSockets are blocked; defaults to VITE_RAG_WS_URL over http(s) */
+  readonly VITE_RAG_HTTP_URL?: string;
+  /** Comma-separated model ids offered when the server does not answer `list_models` */
+  readonly VITE_RAG_MODELS?: string;
+  /** Seconds without progress before a question is marked timed out; 0 disables. Defaults to 300 */
+  readonly VITE_RAG_QUESTION_TIMEOUT_SECONDS?: string;
+  /** Endpoint of the local mock server offered in development builds; defaults to ws://localhost:8787/ws/rag/ */
+  readonly VITE_RAG_MOCK_WS_URL?: string;
+  /** Comma-separated sign-in methods: `api_key`, `oidc`. Empty means the advisor connects without signing in */
+  readonly VITE_AUTH_METHODS?: string;
+  /** OIDC issuer URL; its `.well-known/openid-configuration` is read for the endpoints */
+  readonly VITE_OIDC_ISSUER?: string;
+  /** Public client id registered with the issuer for the authorization code flow with PKCE */
+  readonly VITE_OIDC_CLIENT_ID?: string;
+  /** Scopes to request; defaults to "openid profile offline_access" */
+  readonly VITE_OIDC_SCOPE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}